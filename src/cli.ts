@@ -0,0 +1,1556 @@
+/**
+ * CLI interface for vibecurb; the library entry is index.ts
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import * as pathModule from "path";
+import * as fs from "fs";
+import * as readline from "readline";
+import {
+  scanDirectory,
+  scanText,
+  STDIN_FILENAME,
+  streamClientBundles,
+  streamDirectory,
+  walkOptions,
+} from "./scanner/detector";
+import { collectResults } from "./scanner/engine";
+import {
+  getNetworkSecuritySummary,
+  NetworkFinding,
+  scanNetworkDirectory,
+  scanNetworkText,
+  streamNetworkDirectory,
+} from "./scanner/network-detector";
+import {
+  Finding,
+  ScanOptions,
+  ScanResult,
+  SkipReason,
+  TextScanOptions,
+} from "./scanner/types";
+import { autoFix, previewFixes, SkippedFix } from "./fixer/auto-fix";
+import { undoLastFix } from "./fixer/journal";
+import { loadConfig, resolveConfig } from "./config/loader";
+import {
+  BASELINE_FILE_NAME,
+  createBaseline,
+  filterBaseline,
+  loadBaseline,
+  writeBaseline,
+} from "./scanner/baseline";
+import { CliConfigFlags, ResolvedConfig } from "./config/types";
+import {
+  generateReport,
+  REPORT_FORMATS,
+  ReportFormat,
+} from "./scanner/reporter";
+import { VERSION } from "./version";
+import { getRepoRoot, GitError } from "./git/git";
+import { scanStaged } from "./git/staged";
+import { installHook, uninstallHook } from "./git/hook";
+import { HistoryFinding, scanHistory } from "./git/history";
+import {
+  ChangedLines,
+  filterChangedLines,
+  getChangedLines,
+} from "./git/changes";
+import { getRuleCatalog } from "./scanner/catalog";
+import { checkEnv } from "./scanner/env-check";
+import { clearScanCache, getCachePath, openScanCache } from "./scanner/cache";
+import { verifyFindings } from "./verify/verify";
+import { startLanguageServer } from "./lsp/server";
+import { planInit } from "./init/init";
+import { ASSISTANTS } from "./init/instructions";
+import { startMcpServer } from "./mcp/server";
+import { createWatchSession, watchTree, WatchUpdate } from "./watch/watch";
+
+const program = new Command();
+
+// Set when a report goes to stdout, so progress messages move to stderr
+let machineOutput = false;
+
+function status(message: string): void {
+  if (machineOutput) {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
+}
+
+/**
+ * Resolve --format/--json and route progress output accordingly
+ */
+function resolveFormat(options: {
+  format?: string;
+  json?: boolean;
+  output?: string;
+}): ReportFormat {
+  const format = options.json ? "json" : (options.format ?? "console");
+
+  if (!(REPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(
+      `Unknown format "${format}" (expected ${REPORT_FORMATS.join(", ")})`,
+    );
+  }
+
+  machineOutput = format !== "console" && !options.output;
+  return format as ReportFormat;
+}
+
+/**
+ * Print a formatted report or write it to --output
+ */
+function writeReport(
+  results: ScanResult[],
+  format: ReportFormat,
+  options: { output?: string; rootDir: string },
+): void {
+  const { output } = options;
+  const report = generateReport(results, { format, rootDir: options.rootDir });
+
+  if (output) {
+    fs.writeFileSync(output, `${report}\n`);
+    status(chalk.green(`📝 ${format} report written to ${output}`));
+  } else {
+    console.log(report);
+  }
+}
+
+/**
+ * Directory report paths are relative to: the repository root, else the
+ * config's directory or the scanned directory
+ */
+function reportRootDir(fullPath: string, config: ResolvedConfig): string {
+  try {
+    return getRepoRoot(projectDirOf(fullPath));
+  } catch (error) {
+    if (!(error instanceof GitError)) {
+      throw error;
+    }
+    return config.configPath ? config.rootDir : projectDirOf(fullPath);
+  }
+}
+
+/**
+ * The scanned directory, or the directory of a scanned file
+ */
+function projectDirOf(fullPath: string): string {
+  return fs.statSync(fullPath).isDirectory()
+    ? fullPath
+    : pathModule.dirname(fullPath);
+}
+
+function splitList(value?: string): string[] | undefined {
+  return value ? value.split(",").map((e: string) => e.trim()) : undefined;
+}
+
+/**
+ * Load the nearest .vibecurbrc.json and merge it with CLI flags
+ */
+function loadScanConfig(
+  fullPath: string,
+  configPath: string | undefined,
+  flags: CliConfigFlags,
+): ResolvedConfig {
+  const loaded = loadConfig(fullPath, configPath);
+  if (loaded.path) {
+    status(chalk.gray(`⚙️  Using config: ${loaded.path}\n`));
+  }
+  return resolveConfig(loaded, flags, fullPath);
+}
+
+/**
+ * Parse --jobs, --max-file-size (in KB) and --no-ignore into scan options
+ */
+function engineOptions(options: {
+  jobs?: string;
+  maxFileSize?: string;
+  ignore?: boolean;
+}): Pick<ScanOptions, "workers" | "maxFileSize" | "ignoreFiles"> {
+  const parse = (value: string | undefined, flag: string, min: number) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < min) {
+      throw new Error(`${flag} must be a whole number of at least ${min}`);
+    }
+    return number;
+  };
+
+  const maxFileSize = parse(options.maxFileSize, "--max-file-size", 1);
+  return {
+    workers: parse(options.jobs, "--jobs", 0),
+    maxFileSize: maxFileSize && maxFileSize * 1024,
+    ignoreFiles: options.ignore,
+  };
+}
+
+/**
+ * Whether a scan reads stdin: `-` as the path, or --stdin
+ */
+function readsStdin(
+  scanPath: string,
+  options: { stdin?: boolean; filename?: string },
+): boolean {
+  const stdin = scanPath === "-" || Boolean(options.stdin);
+  if (options.filename !== undefined && !stdin) {
+    throw new Error("--filename requires --stdin");
+  }
+  return stdin;
+}
+
+/**
+ * Scan everything piped to stdin as one file
+ */
+async function* scanStdin<T extends Finding>(
+  scan: (content: string, options: TextScanOptions) => T[],
+  options: TextScanOptions,
+): AsyncGenerator<ScanResult<T>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+
+  yield {
+    filePath: options.filename ?? STDIN_FILENAME,
+    findings: scan(Buffer.concat(chunks).toString("utf8"), options),
+  };
+}
+
+/**
+ * Lines changed since --diff's base ref, or undefined without --diff
+ */
+function changedLinesFor(
+  fullPath: string,
+  options: { diff?: string },
+): ChangedLines | undefined {
+  if (options.diff === undefined) {
+    return undefined;
+  }
+  const changed = getChangedLines(options.diff, projectDirOf(fullPath));
+  status(
+    chalk.gray(
+      `ℹ️  Reporting lines changed since ${options.diff}: ${changed.size} file(s)\n`,
+    ),
+  );
+  return changed;
+}
+
+/**
+ * Drop findings outside the changed lines, when --diff is given
+ */
+async function* onlyChangedLines<T extends Finding>(
+  stream: AsyncIterable<ScanResult<T>>,
+  changed: ChangedLines | undefined,
+): AsyncGenerator<ScanResult<T>> {
+  for await (const result of stream) {
+    yield changed
+      ? { ...result, findings: filterChangedLines(result.findings, changed) }
+      : result;
+  }
+}
+
+/**
+ * Drain a scan stream, hiding baselined findings and verifying secrets as
+ * files finish. onResult sees each file with findings as soon as it is
+ * done; the returned results are sorted by path.
+ */
+async function consumeScan<T extends Finding>(
+  stream: AsyncIterable<ScanResult<T>>,
+  config: ResolvedConfig,
+  options: {
+    verify?: boolean;
+    onResult?: (result: ScanResult<T>) => void;
+  } = {},
+): Promise<ScanResult<T>[]> {
+  const baseline = config.baselinePath && loadBaseline(config.baselinePath);
+  const results: ScanResult<T>[] = [];
+  let hidden = 0;
+  const skipped = new Map<SkipReason, number>();
+
+  if (options.verify) {
+    status(chalk.blue("🔐 Verifying secrets with their providers...\n"));
+  }
+
+  for await (const result of stream) {
+    if (result.skipped) {
+      skipped.set(result.skipped, (skipped.get(result.skipped) ?? 0) + 1);
+      continue;
+    }
+
+    let findings = result.findings;
+    if (config.baselinePath && baseline) {
+      findings = filterBaseline(
+        findings,
+        baseline,
+        pathModule.dirname(config.baselinePath),
+      );
+      hidden += result.findings.length - findings.length;
+    }
+    if (findings.length === 0 && !result.error) {
+      continue;
+    }
+    if (options.verify) {
+      findings = await verifyFindings(findings, config.verify);
+    }
+
+    const kept = { ...result, findings };
+    results.push(kept);
+    options.onResult?.(kept);
+  }
+
+  reportBaselined(hidden);
+  reportSkipped(skipped);
+  return results.sort((a, b) => a.filePath.localeCompare(b.filePath));
+}
+
+function reportSkipped(skipped: ReadonlyMap<SkipReason, number>): void {
+  if (skipped.size === 0) {
+    return;
+  }
+  const total = Array.from(skipped.values()).reduce((a, b) => a + b, 0);
+  const reasons = Array.from(
+    skipped,
+    ([reason, count]) => `${count} ${reason}`,
+  );
+  status(chalk.gray(`ℹ️  Skipped ${total} file(s): ${reasons.join(", ")}\n`));
+}
+
+function reportBaselined(count: number): void {
+  if (count > 0) {
+    status(chalk.gray(`ℹ️  ${count} finding(s) hidden by baseline\n`));
+  }
+}
+
+const FAIL_ON = ["error", "live"] as const;
+
+type FailOn = (typeof FAIL_ON)[number];
+
+/**
+ * Validate --fail-on; "live" needs --verify to mean anything
+ */
+function resolveFailOn(options: { failOn?: string; verify?: boolean }): FailOn {
+  const failOn = options.failOn ?? "error";
+
+  if (!(FAIL_ON as readonly string[]).includes(failOn)) {
+    throw new Error(
+      `Unknown --fail-on "${failOn}" (expected ${FAIL_ON.join(", ")})`,
+    );
+  }
+  if (failOn === "live" && !options.verify) {
+    throw new Error("--fail-on live requires --verify");
+  }
+
+  return failOn as FailOn;
+}
+
+/**
+ * Check whether findings should fail the run: any error, or only live secrets
+ */
+function shouldFail(findings: readonly Finding[], failOn: FailOn): boolean {
+  return failOn === "live"
+    ? findings.some((f) => f.verified === "live")
+    : findings.some((f) => f.severity === "error");
+}
+
+const VERIFIED_LABELS = {
+  live: chalk.red.bold("LIVE - rotate this secret now"),
+  revoked: chalk.gray("revoked"),
+  unknown: chalk.yellow("unknown"),
+};
+
+function printVerified(finding: Finding): void {
+  if (finding.verified) {
+    console.log(
+      `   ${chalk.gray("Verified:")} ${VERIFIED_LABELS[finding.verified]}`,
+    );
+  }
+}
+
+function printLiveCount(findings: readonly Finding[]): void {
+  const live = findings.filter((f) => f.verified === "live").length;
+  if (live > 0) {
+    console.log(chalk.red.bold(`🔴 ${live} live secret(s) found`));
+  }
+}
+
+/**
+ * Print the diff a fix would apply, or write it to --output as a patch
+ */
+function printFixPreview(
+  fullPath: string,
+  findings: readonly Finding[],
+  options: { mask?: boolean; output?: string },
+): void {
+  if (findings.length === 0) {
+    status(chalk.green("✅ No secrets found to fix"));
+    return;
+  }
+
+  const preview = previewFixes(fullPath, findings, { mask: options.mask });
+  printSkipped(preview.skipped, status);
+
+  if (!preview.patch) {
+    status(chalk.yellow("No changes would be made"));
+  } else if (options.output) {
+    fs.writeFileSync(options.output, preview.patch);
+    status(chalk.green(`📝 Patch written to ${options.output}`));
+  } else if (process.stdout.isTTY) {
+    process.stdout.write(colorizePatch(preview.patch));
+  } else {
+    process.stdout.write(preview.patch);
+  }
+
+  if (options.mask !== false) {
+    status(
+      chalk.gray(
+        "\nSecret values are masked; use --no-mask for a patch git apply accepts",
+      ),
+    );
+  }
+}
+
+function colorizePatch(patch: string): string {
+  return patch
+    .split("\n")
+    .map((line) =>
+      /^(diff|---|\+\+\+|new file)/.test(line)
+        ? chalk.bold(line)
+        : line.startsWith("@@")
+          ? chalk.cyan(line)
+          : line.startsWith("+")
+            ? chalk.green(line)
+            : line.startsWith("-")
+              ? chalk.red(line)
+              : line,
+    )
+    .join("\n");
+}
+
+function printSkipped(
+  skipped: readonly SkippedFix[],
+  print: (message: string) => void,
+): void {
+  if (skipped.length === 0) {
+    return;
+  }
+
+  print(chalk.yellow(`⚠️  Not fixed automatically:`));
+  skipped.forEach(({ finding, reason }) =>
+    print(
+      `  ${chalk.cyan(`${finding.filePath}:${finding.lineNumber}`)} ${finding.pattern} (${reason})`,
+    ),
+  );
+  print("");
+}
+
+/**
+ * Apply fixes and print what changed
+ */
+function runAutoFix(fullPath: string, findings: readonly Finding[]): void {
+  if (findings.length === 0) {
+    console.log(chalk.green("✅ No secrets found to fix"));
+    return;
+  }
+
+  console.log(chalk.blue("\n🔧 Auto-fixing secrets...\n"));
+  const fixResult = autoFix(fullPath, findings);
+
+  if (!fixResult.success) {
+    console.log(chalk.red(`❌ ${fixResult.message}`));
+    return;
+  }
+
+  console.log(chalk.green(`✅ ${fixResult.message}`));
+  if (fixResult.envVars.length > 0) {
+    console.log(
+      chalk.green(
+        `✅ Added ${fixResult.envVars.length} variable(s) to .env and .env.example`,
+      ),
+    );
+  }
+  if (fixResult.filesModified.length > 0) {
+    console.log(chalk.gray(`\nModified files:`));
+    fixResult.filesModified.forEach((f) => console.log(`  ${chalk.cyan(f)}`));
+  }
+  if (fixResult.skipped.length > 0) {
+    console.log("");
+    printSkipped(fixResult.skipped, console.log);
+  }
+  console.log(chalk.blue(`\nNext steps:`));
+  console.log(`  1. Review the changes`);
+  console.log(`  2. Check the values in .env`);
+  console.log(
+    `  3. Run ${chalk.cyan("vibecurb fix --undo")} to revert this fix`,
+  );
+}
+
+program
+  .name("vibecurb")
+  .description("Security scanner for vibe-coded apps")
+  .version(VERSION);
+
+program
+  .command("scan")
+  .description("Scan files for secrets and sensitive data")
+  .argument("[path]", "Path to scan (file or directory)", ".")
+  .option(
+    "-e, --extensions <exts>",
+    "File extensions to scan (comma-separated)",
+  )
+  .option(
+    "-s, --severity <level>",
+    "Minimum severity level (error, warning, all)",
+  )
+  .option(
+    "--exclude <globs>",
+    "Directories and files to skip, e.g. packages/*/fixtures/** (comma-separated)",
+  )
+  .option("--include <globs>", "Only scan files matching these globs")
+  .option("--no-ignore", "Do not honor .gitignore and .vibecurbignore")
+  .option(
+    "--scan-generated",
+    "Also scan lockfiles and generated or minified JavaScript and CSS",
+  )
+  .option("-j, --jobs <n>", "Worker threads for matching (0: main thread)")
+  .option("--max-file-size <kb>", "Skip files larger than this (default: 1024)")
+  .option("--no-cache", "Rescan every file instead of reusing cached results")
+  .option(
+    "-c, --config <file>",
+    "Path to config file (default: nearest .vibecurbrc.json)",
+  )
+  .option("--fix", "Auto-fix detected secrets")
+  .option("--dry-run", "Print the fixes as a unified diff without applying")
+  .option("--no-mask", "Show secret values in the --dry-run diff")
+  .option("--staged", "Scan staged content from the git index")
+  .option(
+    "--diff <ref>",
+    "Only report findings on lines changed since the merge base with ref",
+  )
+  .option("--stdin", "Scan content piped to stdin (same as path -)")
+  .option(
+    "--filename <name>",
+    "File the stdin content stands for; picks its language and config",
+  )
+  .option(
+    "--client-bundles",
+    "Also scan build output (.next/static, dist/assets) for inlined secrets",
+  )
+  .option("--verify", "Check detected secrets against their providers")
+  .option(
+    "--fail-on <level>",
+    "Exit non-zero on any error, or only on live secrets (error, live)",
+  )
+  .option("--baseline <file>", "Baseline of accepted findings")
+  .option("--no-baseline", "Report findings recorded in the baseline too")
+  .option(
+    "-f, --format <format>",
+    "Output format (console, json, markdown, sarif)",
+  )
+  .option("-o, --output <file>", "Write the report to a file")
+  .option("--json", "Output results as JSON (same as --format json)")
+  .action(async (scanPath: string, options) => {
+    try {
+      const stdin = readsStdin(scanPath, options);
+      const fullPath = stdin ? process.cwd() : pathModule.resolve(scanPath);
+      const format = resolveFormat(options);
+      if (options.dryRun && !options.output) {
+        // The patch goes to stdout
+        machineOutput = true;
+      }
+
+      const failOn = resolveFailOn(options);
+
+      if (
+        stdin &&
+        (options.fix ||
+          options.dryRun ||
+          options.staged ||
+          options.clientBundles)
+      ) {
+        throw new Error(
+          "--stdin cannot be combined with --fix, --dry-run, --staged or --client-bundles",
+        );
+      }
+
+      if (options.staged && (options.fix || options.dryRun)) {
+        throw new Error("--staged cannot be combined with --fix or --dry-run");
+      }
+      if (options.staged && options.clientBundles) {
+        throw new Error("--staged cannot be combined with --client-bundles");
+      }
+      if (
+        options.diff !== undefined &&
+        (stdin || options.staged || options.clientBundles)
+      ) {
+        throw new Error(
+          "--diff cannot be combined with --stdin, --staged or --client-bundles",
+        );
+      }
+
+      status(
+        chalk.blue(
+          stdin
+            ? "🔍 Scanning stdin\n"
+            : options.staged
+              ? `🔍 Scanning staged changes: ${fullPath}\n`
+              : `🔍 Scanning: ${fullPath}\n`,
+        ),
+      );
+
+      const config = loadScanConfig(fullPath, options.config, {
+        extensions: splitList(options.extensions),
+        exclude: splitList(options.exclude),
+        include: splitList(options.include),
+        severity: options.severity,
+        baseline: options.baseline,
+        scanGenerated: options.scanGenerated,
+      });
+
+      const changed = changedLinesFor(fullPath, options);
+      const cache =
+        options.cache && !stdin
+          ? openScanCache(projectDirOf(fullPath))
+          : undefined;
+      const source = stdin
+        ? scanStdin(scanText, { filename: options.filename, config })
+        : onlyChangedLines(
+            scanSources(fullPath, config, {
+              ...engineOptions(options),
+              cache,
+              files: changed && Array.from(changed.keys()),
+              staged: options.staged,
+              clientBundles: options.clientBundles,
+            }),
+            changed,
+          );
+
+      // Handle dry-run and auto-fix
+      if (options.dryRun || options.fix) {
+        const findings = (await collectResults(source)).flatMap(
+          (r) => r.findings,
+        );
+        cache?.save();
+        if (options.dryRun) {
+          printFixPreview(fullPath, findings, options);
+        } else {
+          runAutoFix(fullPath, findings);
+        }
+        return;
+      }
+
+      // Console output is printed file by file as the scan goes
+      const streaming = format === "console" && !options.output;
+      const results = await consumeScan(source, config, {
+        verify: options.verify,
+        onResult: streaming ? printResult : undefined,
+      });
+      cache?.save();
+
+      if (streaming) {
+        printSummary(results);
+      } else {
+        writeReport(results, format, {
+          output: options.output,
+          rootDir: reportRootDir(fullPath, config),
+        });
+      }
+
+      if (
+        shouldFail(
+          results.flatMap((r) => r.findings),
+          failOn,
+        )
+      ) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Scan failed:"),
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Results of `scan`: the working tree or the index, then client bundles
+ */
+async function* scanSources(
+  fullPath: string,
+  config: ResolvedConfig,
+  options: Pick<
+    ScanOptions,
+    "workers" | "maxFileSize" | "ignoreFiles" | "cache" | "files"
+  > & {
+    staged?: boolean;
+    clientBundles?: boolean;
+  },
+): AsyncGenerator<ScanResult> {
+  if (options.staged) {
+    yield* scanStaged({ path: fullPath, config });
+    return;
+  }
+
+  yield* streamDirectory({ ...options, path: fullPath, config });
+  if (options.clientBundles) {
+    yield* streamClientBundles(projectDirOf(fullPath), config, options);
+  }
+}
+
+function displayResults(results: ScanResult[]): void {
+  results.forEach(printResult);
+  printSummary(results);
+}
+
+function printResult(result: ScanResult): void {
+  if (result.error) {
+    console.log(chalk.yellow(`⚠️  ${result.filePath}: ${result.error}`));
+    return;
+  }
+
+  console.log(chalk.bold(`\n📄 ${result.filePath}`));
+  console.log(chalk.gray("─".repeat(50)));
+
+  result.findings.forEach((finding) => {
+    const severityColor =
+      finding.severity === "error" ? chalk.red : chalk.yellow;
+    const severityIcon = finding.severity === "error" ? "❌" : "⚠️";
+
+    console.log(
+      `${severityIcon} ${severityColor(finding.severity.toUpperCase())} Line ${finding.lineNumber}:${finding.column}`,
+    );
+    console.log(`   ${chalk.white(finding.message)}`);
+    console.log(`   ${chalk.gray("Match:")} ${chalk.cyan(finding.match)}`);
+    if (finding.confidence !== undefined) {
+      console.log(
+        `   ${chalk.gray("Confidence:")} ${Math.round(finding.confidence * 100)}%`,
+      );
+    }
+    printVerified(finding);
+    console.log(
+      `   ${chalk.gray("Fix:")} ${chalk.green(finding.fixSuggestion)}`,
+    );
+    console.log();
+  });
+}
+
+function printSummary(results: ScanResult[]): void {
+  if (results.length === 0) {
+    console.log(chalk.green("✅ No secrets or sensitive data found!"));
+    return;
+  }
+
+  const findings = results.flatMap((r) => r.findings);
+  const totalErrors = findings.filter((f) => f.severity === "error").length;
+  const totalWarnings = findings.length - totalErrors;
+
+  // Summary
+  console.log(chalk.bold("\n📊 Summary:"));
+  console.log(chalk.gray("─".repeat(50)));
+
+  if (totalErrors > 0) {
+    console.log(chalk.red(`❌ ${totalErrors} error(s) found`));
+  }
+  printLiveCount(findings);
+
+  if (totalWarnings > 0) {
+    console.log(chalk.yellow(`⚠️  ${totalWarnings} warning(s) found`));
+  }
+
+  if (totalErrors === 0 && totalWarnings === 0) {
+    console.log(chalk.green("✅ All clear!"));
+  }
+}
+
+program
+  .command("fix")
+  .description("Move detected secrets to .env, or undo the last fix")
+  .argument("[path]", "Project to fix", ".")
+  .option(
+    "-c, --config <file>",
+    "Path to config file (default: nearest .vibecurbrc.json)",
+  )
+  .option("--undo", "Restore the files changed by the last fix")
+  .option("--force", "Undo even if files changed since the fix")
+  .action(async (fixPath: string, options) => {
+    try {
+      const fullPath = pathModule.resolve(fixPath);
+
+      if (options.undo) {
+        const rootDir =
+          fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()
+            ? pathModule.dirname(fullPath)
+            : fullPath;
+        const result = undoLastFix(rootDir, { force: options.force });
+        console.log(chalk.green("✅ Undid the last fix"));
+        result.restored.forEach((f) =>
+          console.log(`  ${chalk.cyan(f)} restored`),
+        );
+        result.deleted.forEach((f) =>
+          console.log(`  ${chalk.cyan(f)} deleted`),
+        );
+        return;
+      }
+
+      status(chalk.blue(`🔍 Scanning: ${fullPath}\n`));
+      const config = loadScanConfig(fullPath, options.config, {});
+      runAutoFix(
+        fullPath,
+        (await scanDirectory({ path: fullPath, config })).flatMap(
+          (r) => r.findings,
+        ),
+      );
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Fix failed:"),
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("scan-network")
+  .description("Scan for network security issues (logging, API exposure, etc.)")
+  .argument("[path]", "Path to scan (file or directory)", ".")
+  .option(
+    "-s, --severity <level>",
+    "Minimum severity level (error, warning, all)",
+  )
+  .option(
+    "--exclude <globs>",
+    "Directories and files to skip, e.g. packages/*/fixtures/** (comma-separated)",
+  )
+  .option("--include <globs>", "Only scan files matching these globs")
+  .option("--no-ignore", "Do not honor .gitignore and .vibecurbignore")
+  .option(
+    "--scan-generated",
+    "Also scan lockfiles and generated or minified JavaScript and CSS",
+  )
+  .option("-j, --jobs <n>", "Worker threads for matching (0: main thread)")
+  .option("--max-file-size <kb>", "Skip files larger than this (default: 1024)")
+  .option("--no-cache", "Rescan every file instead of reusing cached results")
+  .option(
+    "-c, --config <file>",
+    "Path to config file (default: nearest .vibecurbrc.json)",
+  )
+  .option("--stdin", "Scan content piped to stdin (same as path -)")
+  .option(
+    "--filename <name>",
+    "File the stdin content stands for; picks its language and config",
+  )
+  .option(
+    "--diff <ref>",
+    "Only report findings on lines changed since the merge base with ref",
+  )
+  .option("--baseline <file>", "Baseline of accepted findings")
+  .option("--no-baseline", "Report findings recorded in the baseline too")
+  .option(
+    "-f, --format <format>",
+    "Output format (console, json, markdown, sarif)",
+  )
+  .option("-o, --output <file>", "Write the report to a file")
+  .option("--json", "Output results as JSON (same as --format json)")
+  .action(async (scanPath: string, options) => {
+    try {
+      const stdin = readsStdin(scanPath, options);
+      const fullPath = stdin ? process.cwd() : pathModule.resolve(scanPath);
+      const format = resolveFormat(options);
+      if (options.diff !== undefined && stdin) {
+        throw new Error("--diff cannot be combined with --stdin");
+      }
+
+      status(
+        chalk.blue(
+          `🌐 Scanning network security: ${stdin ? "stdin" : fullPath}\n`,
+        ),
+      );
+
+      const config = loadScanConfig(fullPath, options.config, {
+        exclude: splitList(options.exclude),
+        include: splitList(options.include),
+        severity: options.severity,
+        baseline: options.baseline,
+        scanGenerated: options.scanGenerated,
+      });
+      const changed = changedLinesFor(fullPath, options);
+      // Console output is printed file by file as the scan goes
+      const streaming = format === "console" && !options.output;
+      const cache =
+        options.cache && !stdin
+          ? openScanCache(projectDirOf(fullPath))
+          : undefined;
+      const results = await consumeScan(
+        stdin
+          ? scanStdin(scanNetworkText, { filename: options.filename, config })
+          : onlyChangedLines(
+              streamNetworkDirectory({
+                ...engineOptions(options),
+                path: fullPath,
+                config,
+                cache,
+                files: changed && Array.from(changed.keys()),
+              }),
+              changed,
+            ),
+        config,
+        { onResult: streaming ? printNetworkResult : undefined },
+      );
+      cache?.save();
+      const findings = results.flatMap((r) => r.findings);
+
+      if (streaming) {
+        printNetworkSummary(findings);
+      } else {
+        writeReport(results, format, {
+          output: options.output,
+          rootDir: reportRootDir(fullPath, config),
+        });
+      }
+
+      const hasErrors = findings.some((f) => f.severity === "error");
+      if (hasErrors) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Scan failed:"),
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      process.exit(1);
+    }
+  });
+
+function printNetworkResult(result: ScanResult<NetworkFinding>): void {
+  if (result.error) {
+    console.log(chalk.yellow(`⚠️  ${result.filePath}: ${result.error}`));
+    return;
+  }
+
+  result.findings.forEach((finding) => {
+    const severityColor =
+      finding.severity === "error" ? chalk.red : chalk.yellow;
+    const severityIcon = finding.severity === "error" ? "❌" : "⚠️";
+
+    console.log(
+      `${severityIcon} ${severityColor(finding.severity.toUpperCase())} [${finding.category}]`,
+    );
+    console.log(`   📄 ${finding.filePath}:${finding.lineNumber}`);
+    console.log(`   ${chalk.white(finding.message)}`);
+    console.log(`   ${chalk.gray("Match:")} ${chalk.cyan(finding.match)}`);
+    if (finding.dataFlow) {
+      console.log(`   ${chalk.gray("Data flow:")}`);
+      finding.dataFlow.forEach((step) =>
+        console.log(
+          `     ${chalk.gray(`${step.lineNumber}:${step.column}`)} ${step.expression}`,
+        ),
+      );
+    }
+    console.log(
+      `   ${chalk.gray("Fix:")} ${chalk.green(finding.fixSuggestion)}`,
+    );
+    console.log();
+  });
+}
+
+function printNetworkSummary(findings: NetworkFinding[]): void {
+  if (findings.length === 0) {
+    console.log(chalk.green("✅ No network security issues found!"));
+    return;
+  }
+
+  const categories = getNetworkSecuritySummary(findings);
+  const totalErrors = findings.filter((f) => f.severity === "error").length;
+  const totalWarnings = findings.length - totalErrors;
+
+  console.log(chalk.bold("\n📊 Summary by Category:"));
+  console.log(chalk.gray("─".repeat(50)));
+  Object.entries(categories).forEach(([cat, count]) => {
+    if (count > 0) {
+      console.log(`${cat}: ${count}`);
+    }
+  });
+
+  console.log(chalk.bold("\n📊 Overall:"));
+  if (totalErrors > 0) {
+    console.log(chalk.red(`❌ ${totalErrors} error(s) found`));
+  }
+  if (totalWarnings > 0) {
+    console.log(chalk.yellow(`⚠️  ${totalWarnings} warning(s) found`));
+  }
+}
+
+program
+  .command("scan-history")
+  .description("Scan git history for secrets, including removed ones")
+  .argument("[path]", "Path inside the repository", ".")
+  .option("--range <range>", "Revision range to scan (e.g. v1.0..HEAD)")
+  .option("--since <ref>", "Only scan commits after this ref")
+  .option("--all", "Scan commits reachable from any ref")
+  .option("--verify", "Check detected secrets against their providers")
+  .option(
+    "--fail-on <level>",
+    "Exit non-zero on any error, or only on live secrets (error, live)",
+  )
+  .option(
+    "-s, --severity <level>",
+    "Minimum severity level (error, warning, all)",
+  )
+  .option(
+    "-c, --config <file>",
+    "Path to config file (default: nearest .vibecurbrc.json)",
+  )
+  .option("--json", "Output results as JSON")
+  .action(async (scanPath: string, options) => {
+    try {
+      const fullPath = pathModule.resolve(scanPath);
+
+      resolveFormat({ json: options.json });
+      const failOn = resolveFailOn(options);
+      status(chalk.blue(`🕰️  Scanning git history: ${fullPath}\n`));
+
+      const config = loadScanConfig(fullPath, options.config, {
+        severity: options.severity,
+      });
+
+      let findings = scanHistory({
+        path: fullPath,
+        config,
+        range: options.range,
+        since: options.since,
+        all: options.all,
+      });
+      if (options.verify) {
+        status(chalk.blue("🔐 Verifying secrets with their providers...\n"));
+        findings = await verifyFindings(findings, config.verify);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(findings, null, 2));
+      } else {
+        displayHistoryResults(findings);
+      }
+
+      if (shouldFail(findings, failOn)) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Scan failed:"),
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      process.exit(1);
+    }
+  });
+
+function displayHistoryResults(findings: HistoryFinding[]): void {
+  if (findings.length === 0) {
+    console.log(chalk.green("✅ No secrets found in git history!"));
+    return;
+  }
+
+  findings.forEach((finding) => {
+    const severityColor =
+      finding.severity === "error" ? chalk.red : chalk.yellow;
+    const severityIcon = finding.severity === "error" ? "❌" : "⚠️";
+
+    console.log(
+      `${severityIcon} ${severityColor(finding.severity.toUpperCase())} ${finding.pattern}`,
+    );
+    console.log(`   📄 ${finding.filePath}:${finding.lineNumber}`);
+    console.log(
+      `   ${chalk.gray("Commit:")} ${finding.commit.substring(0, 12)} ${chalk.gray(finding.date)}`,
+    );
+    console.log(`   ${chalk.gray("Author:")} ${finding.author}`);
+    if (finding.commits.length > 1) {
+      console.log(
+        `   ${chalk.gray("Added again in:")} ${finding.commits
+          .slice(1)
+          .map((sha) => sha.substring(0, 12))
+          .join(", ")}`,
+      );
+    }
+    console.log(`   ${chalk.gray("Match:")} ${chalk.cyan(finding.match)}`);
+    printVerified(finding);
+    console.log(
+      `   ${chalk.gray("Fix:")} ${chalk.green(finding.fixSuggestion)}`,
+    );
+    console.log(
+      `   ${chalk.yellow("Rotate this secret - removing it from code does not remove it from history")}`,
+    );
+    console.log();
+  });
+
+  const errors = findings.filter((f) => f.severity === "error").length;
+  console.log(chalk.bold("\n📊 Summary:"));
+  console.log(chalk.gray("─".repeat(50)));
+  printLiveCount(findings);
+  if (errors > 0) {
+    console.log(chalk.red(`❌ ${errors} error(s) found`));
+  }
+  if (findings.length > errors) {
+    console.log(
+      chalk.yellow(`⚠️  ${findings.length - errors} warning(s) found`),
+    );
+  }
+}
+
+program
+  .command("baseline")
+  .description("Record current findings so later scans report only new ones")
+  .argument("[path]", "Path to scan (file or directory)", ".")
+  .option(
+    "-c, --config <file>",
+    "Path to config file (default: nearest .vibecurbrc.json)",
+  )
+  .option("-o, --output <file>", "Baseline file to write")
+  .action(async (scanPath: string, options) => {
+    try {
+      const fullPath = pathModule.resolve(scanPath);
+      const config = loadScanConfig(fullPath, options.config, {
+        baseline: options.output,
+      });
+      const baselinePath =
+        config.baselinePath ?? pathModule.join(fullPath, BASELINE_FILE_NAME);
+
+      const findings: Finding[] = [
+        ...(await scanDirectory({ path: fullPath, config })).flatMap(
+          (r) => r.findings,
+        ),
+        ...(await scanNetworkDirectory({ path: fullPath, config })),
+      ];
+
+      writeBaseline(
+        baselinePath,
+        createBaseline(findings, pathModule.dirname(baselinePath)),
+      );
+
+      console.log(
+        chalk.green(
+          `✅ Baseline written with ${findings.length} finding(s): ${baselinePath}`,
+        ),
+      );
+      console.log(
+        chalk.gray("Commit this file; later scans only report new findings."),
+      );
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Baseline failed:"),
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("env-check")
+  .description("Check .env files: gitignore, permissions, keys and usage")
+  .argument("[path]", "Project directory", ".")
+  .option(
+    "-c, --config <file>",
+    "Path to config file (default: nearest .vibecurbrc.json)",
+  )
+  .option(
+    "-f, --format <format>",
+    "Output format (console, json, markdown, sarif)",
+  )
+  .option("-o, --output <file>", "Write the report to a file")
+  .option("--json", "Output results as JSON (same as --format json)")
+  .action(async (envPath: string, options) => {
+    try {
+      const fullPath = pathModule.resolve(envPath);
+      const format = resolveFormat(options);
+
+      status(chalk.blue(`🔍 Checking env files: ${fullPath}\n`));
+      const config = loadScanConfig(fullPath, options.config, {});
+      const results = await checkEnv(fullPath, config);
+
+      if (format === "console" && !options.output) {
+        if (results.length === 0) {
+          console.log(chalk.green("✅ No env file problems found"));
+        } else {
+          displayResults(results);
+        }
+      } else {
+        writeReport(results, format, {
+          output: options.output,
+          rootDir: reportRootDir(fullPath, config),
+        });
+      }
+
+      if (results.some((r) => r.findings.some((f) => f.severity === "error"))) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Env check failed:"),
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command("watch")
+  .description("Rescan files for secrets and network issues as they change")
+  .argument("[path]", "Directory to watch", ".")
+  .option(
+    "-s, --severity <level>",
+    "Minimum severity level (error, warning, all)",
+  )
+  .option(
+    "--exclude <globs>",
+    "Directories and files to skip, e.g. packages/*/fixtures/** (comma-separated)",
+  )
+  .option("--include <globs>", "Only scan files matching these globs")
+  .option("--no-ignore", "Do not honor .gitignore and .vibecurbignore")
+  .option(
+    "--scan-generated",
+    "Also scan lockfiles and generated or minified JavaScript and CSS",
+  )
+  .option("-j, --jobs <n>", "Worker threads for matching (0: main thread)")
+  .option("--max-file-size <kb>", "Skip files larger than this (default: 1024)")
+  .option("--no-cache", "Rescan every file instead of reusing cached results")
+  .option("--debounce <ms>", "Wait for changes to settle this long", "200")
+  .option(
+    "-c, --config <file>",
+    "Path to config file (default: nearest .vibecurbrc.json)",
+  )
+  .option("--baseline <file>", "Baseline of accepted findings")
+  .option("--no-baseline", "Report findings recorded in the baseline too")
+  .action(async (watchPath: string, options) => {
+    try {
+      const fullPath = pathModule.resolve(watchPath);
+      if (!fs.statSync(fullPath).isDirectory()) {
+        throw new Error(`${fullPath} is not a directory`);
+      }
+      const debounceMs = Number(options.debounce);
+      if (!Number.isInteger(debounceMs) || debounceMs < 0) {
+        throw new Error("--debounce must be a whole number of milliseconds");
+      }
+
+      const config = loadScanConfig(fullPath, options.config, {
+        exclude: splitList(options.exclude),
+        include: splitList(options.include),
+        severity: options.severity,
+        baseline: options.baseline,
+        scanGenerated: options.scanGenerated,
+      });
+      const cache = options.cache ? openScanCache(fullPath) : undefined;
+      const scanOptions = {
+        ...engineOptions(options),
+        path: fullPath,
+        config,
+        cache,
+      };
+      const session = createWatchSession(scanOptions);
+
+      const rescan = async (paths?: readonly string[]) => {
+        try {
+          const update = await session.scan(paths);
+          cache?.save();
+          printWatchUpdate(fullPath, update);
+        } catch (error) {
+          console.error(
+            chalk.red("❌ Scan failed:"),
+            error instanceof Error ? error.message : "Unknown error",
+          );
+        }
+      };
+
+      status(chalk.blue(`👀 Scanning: ${fullPath}\n`));
+      await rescan();
+      watchTree(fullPath, rescan, {
+        debounceMs,
+        exclude: walkOptions(scanOptions).exclude,
+        ignoreFiles: scanOptions.ignoreFiles,
+        onError: (error) => {
+          console.error(chalk.red("❌ Watch failed:"), error.message);
+          process.exit(1);
+        },
+      });
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Watch failed:"),
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Redraw the live summary: current findings with new ones highlighted,
+ * then what the last scan resolved
+ */
+function printWatchUpdate(rootDir: string, update: WatchUpdate): void {
+  const location = (finding: Finding) =>
+    `${pathModule.relative(rootDir, finding.filePath)}:${finding.lineNumber}:${finding.column}`;
+  const added = new Set(update.added);
+
+  if (process.stdout.isTTY) {
+    console.clear();
+  } else {
+    console.log();
+  }
+  console.log(
+    chalk.blue(
+      `👀 Watching ${rootDir} - last scan ${new Date().toLocaleTimeString()} (Ctrl+C to stop)\n`,
+    ),
+  );
+
+  update.errors.forEach((result) =>
+    console.log(chalk.yellow(`⚠️  ${result.filePath}: ${result.error}`)),
+  );
+  update.findings.forEach((finding) => {
+    const icon = finding.severity === "error" ? "❌" : "⚠️ ";
+    const color = finding.severity === "error" ? chalk.red : chalk.yellow;
+    const badge = added.has(finding) ? ` ${chalk.black.bgYellow(" NEW ")}` : "";
+    console.log(
+      `${icon} ${color(finding.severity.toUpperCase().padEnd(7))} ${location(finding)}  ${finding.message}${badge}`,
+    );
+  });
+  update.resolved.forEach((finding) =>
+    console.log(
+      chalk.green(`✔  RESOLVED ${location(finding)}  ${finding.message}`),
+    ),
+  );
+
+  const errors = update.findings.filter((f) => f.severity === "error").length;
+  const warnings = update.findings.length - errors;
+  console.log(chalk.bold("\n📊 Summary:"));
+  console.log(chalk.gray("─".repeat(50)));
+  if (update.findings.length === 0) {
+    console.log(chalk.green("✅ All clear!"));
+  }
+  if (errors > 0) {
+    console.log(chalk.red(`❌ ${errors} error(s)`));
+  }
+  if (warnings > 0) {
+    console.log(chalk.yellow(`⚠️  ${warnings} warning(s)`));
+  }
+  if (update.added.length > 0 || update.resolved.length > 0) {
+    console.log(
+      chalk.gray(
+        `   ${update.added.length} new, ${update.resolved.length} resolved since the last scan`,
+      ),
+    );
+  }
+}
+
+program
+  .command("init")
+  .description(
+    "Set up a project: config, AI instruction files, .gitignore and pre-commit hook",
+  )
+  .argument("[path]", "Project directory", ".")
+  .option("-y, --yes", "Run every step without asking")
+  .option(
+    "--assistants <ids>",
+    `AI assistants to write instructions for (${ASSISTANTS.map((a) => a.id).join(", ")})`,
+  )
+  .action(async (projectPath: string, options) => {
+    try {
+      const rootDir = pathModule.resolve(projectPath);
+      if (!options.yes && !process.stdin.isTTY) {
+        throw new Error(
+          "stdin is not a terminal; pass --yes to run every step",
+        );
+      }
+
+      const steps = planInit(rootDir, {
+        assistants: splitList(options.assistants),
+      });
+      if (steps.length === 0) {
+        console.log(chalk.green("✅ Already set up"));
+        return;
+      }
+
+      for (const step of steps) {
+        if (!options.yes && !(await confirm(`${step.description}?`))) {
+          console.log(chalk.gray("   Skipped"));
+          continue;
+        }
+        try {
+          console.log(chalk.green(`✅ ${step.run()}`));
+        } catch (error) {
+          // One failed step, such as a foreign hook, does not stop the rest
+          console.log(
+            chalk.yellow(
+              `⚠️  ${error instanceof Error ? error.message : "Unknown error"}`,
+            ),
+          );
+        }
+      }
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Init failed:"),
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Ask a yes/no question on the terminal; yes is the default
+ */
+function confirm(question: string): Promise<boolean> {
+  const prompt = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  return new Promise((resolve) =>
+    prompt.question(`${chalk.blue("?")} ${question} (Y/n) `, (answer) => {
+      prompt.close();
+      resolve(!/^n/i.test(answer.trim()));
+    }),
+  );
+}
+
+program
+  .command("lsp")
+  .description("Start a language server for editor diagnostics")
+  .option("--stdio", "Talk LSP over stdin and stdout (the default)")
+  .action(() => {
+    // stdout carries the protocol, so nothing else may print to it
+    startLanguageServer(process.stdin, process.stdout, {
+      onExit: (code) => process.exit(code),
+    });
+  });
+
+program
+  .command("mcp")
+  .description("Start a Model Context Protocol server for coding agents")
+  .argument("[path]", "Project the tools may read", ".")
+  .action((projectPath: string) => {
+    // stdout carries the protocol, so nothing else may print to it
+    startMcpServer(process.stdin, process.stdout, {
+      rootDir: pathModule.resolve(projectPath),
+    });
+  });
+
+const rules = program
+  .command("rules")
+  .description("Inspect built-in and rule pack rules");
+
+rules
+  .command("list")
+  .description("List all rules with their effective severity")
+  .argument("[path]", "Directory whose config is used", ".")
+  .option(
+    "-c, --config <file>",
+    "Path to config file (default: nearest .vibecurbrc.json)",
+  )
+  .option("--json", "Output as JSON")
+  .action((rulesPath: string, options) => {
+    try {
+      machineOutput = Boolean(options.json);
+      const config = loadScanConfig(
+        pathModule.resolve(rulesPath),
+        options.config,
+        {},
+      );
+      const catalog = getRuleCatalog(config);
+
+      if (options.json) {
+        console.log(JSON.stringify(catalog, null, 2));
+        return;
+      }
+
+      const headings = {
+        secrets: "Secret rules",
+        network: "Network rules",
+        env: "Env rules",
+      };
+      (["secrets", "network", "env"] as const).forEach((kind) => {
+        console.log(chalk.bold(`\n${headings[kind]}`));
+        catalog
+          .filter((rule) => rule.kind === kind)
+          .forEach((rule) => {
+            const severity =
+              rule.severity === "off"
+                ? chalk.gray("off    ")
+                : rule.severity === "error"
+                  ? chalk.red("error  ")
+                  : chalk.yellow("warning");
+            const source =
+              rule.source === "built-in" ? "" : chalk.cyan(` [${rule.source}]`);
+            console.log(`  ${severity} ${rule.id}${source}`);
+          });
+      });
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Listing rules failed:"),
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      process.exit(1);
+    }
+  });
+
+const hook = program
+  .command("hook")
+  .description("Manage the git pre-commit hook");
+
+hook
+  .command("install")
+  .description("Install a pre-commit hook that scans staged content")
+  .option("--force", "Replace an existing pre-commit hook")
+  .action((options) => {
+    try {
+      const result = installHook(process.cwd(), { force: options.force });
+      console.log(chalk.green(`✅ ${result.message}: ${result.hookPath}`));
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Hook install failed:"),
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      process.exit(1);
+    }
+  });
+
+hook
+  .command("uninstall")
+  .description("Remove the vibecurb pre-commit hook")
+  .action(() => {
+    try {
+      const result = uninstallHook(process.cwd());
+      const color = result.changed ? chalk.green : chalk.yellow;
+      console.log(color(`${result.message}: ${result.hookPath}`));
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Hook uninstall failed:"),
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      process.exit(1);
+    }
+  });
+
+const cacheCommand = program
+  .command("cache")
+  .description("Manage the scan cache in .vibecurb/cache.json");
+
+cacheCommand
+  .command("clear")
+  .description("Delete the scan cache")
+  .argument("[path]", "Project directory", ".")
+  .action((cachePath: string) => {
+    try {
+      const rootDir = pathModule.resolve(cachePath);
+      if (clearScanCache(rootDir)) {
+        console.log(chalk.green(`✅ Cache cleared: ${getCachePath(rootDir)}`));
+      } else {
+        console.log(chalk.yellow(`No cache found in ${rootDir}`));
+      }
+    } catch (error) {
+      console.error(
+        chalk.red("❌ Cache clear failed:"),
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      process.exit(1);
+    }
+  });
+
+program.parse();
@@ -0,0 +1,347 @@
+/**
+ * Config loader - finds, validates and merges .vibecurbrc.json
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { BASELINE_FILE_NAME } from "../scanner/baseline";
+import { builtInRuleIds } from "../scanner/catalog";
+import { DEFAULT_ENTROPY_OPTIONS } from "../scanner/entropy";
+import { loadRulePacks } from "../scanner/rule-packs";
+import { toRuleId } from "../scanner/rules";
+import { RuleSetting } from "../scanner/types";
+import { DEFAULT_VERIFY_OPTIONS } from "../verify/verify";
+import {
+  CliConfigFlags,
+  ConfigOverride,
+  LoadedConfig,
+  ResolvedConfig,
+  VibecurbConfig,
+} from "./types";
+
+export const CONFIG_FILE_NAME = ".vibecurbrc.json";
+
+const SEVERITY_FILTERS = ["error", "warning", "all"] as const;
+const RULE_SETTINGS = ["error", "warning", "off"] as const;
+const TOP_LEVEL_KEYS = [
+  "extensions",
+  "exclude",
+  "include",
+  "severity",
+  "rules",
+  "disabledRules",
+  "overrides",
+  "baseline",
+  "entropy",
+  "rulePacks",
+  "verify",
+  "scanGenerated",
+] as const;
+const ENTROPY_KEYS = ["minLength", "base64Threshold", "hexThreshold"] as const;
+const VERIFY_KEYS = ["baseUrls", "timeout"] as const;
+const OVERRIDE_KEYS = ["files", "severity", "rules", "disabledRules"] as const;
+
+/**
+ * Thrown when a config file cannot be read or does not match the schema
+ */
+export class ConfigError extends Error {
+  constructor(
+    readonly configPath: string,
+    readonly problems: readonly string[],
+  ) {
+    super(
+      `Invalid config ${configPath}:\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+    );
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Find the nearest rc file, walking up from the scan path
+ */
+export function findConfigFile(startPath: string): string | null {
+  let dir = path.resolve(startPath);
+
+  if (fs.existsSync(dir) && fs.statSync(dir).isFile()) {
+    dir = path.dirname(dir);
+  }
+
+  for (;;) {
+    const candidate = path.join(dir, CONFIG_FILE_NAME);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Load the rc file for a scan path, or an explicit config file
+ */
+export function loadConfig(
+  startPath: string,
+  explicitPath?: string,
+): LoadedConfig {
+  const configPath = explicitPath
+    ? path.resolve(explicitPath)
+    : findConfigFile(startPath);
+
+  if (!configPath) {
+    return { path: null, config: {} };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    throw new ConfigError(configPath, [
+      error instanceof SyntaxError
+        ? `not valid JSON: ${error.message}`
+        : "file could not be read",
+    ]);
+  }
+
+  return { path: configPath, config: validateConfig(raw, configPath) };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkStringArray(
+  value: unknown,
+  key: string,
+  problems: string[],
+): void {
+  if (
+    value !== undefined &&
+    (!Array.isArray(value) || value.some((v) => typeof v !== "string"))
+  ) {
+    problems.push(`"${key}" must be an array of strings`);
+  }
+}
+
+function checkSeverity(value: unknown, key: string, problems: string[]): void {
+  if (
+    value !== undefined &&
+    !(SEVERITY_FILTERS as readonly unknown[]).includes(value)
+  ) {
+    problems.push(`"${key}" must be one of ${SEVERITY_FILTERS.join(", ")}`);
+  }
+}
+
+function checkRules(value: unknown, key: string, problems: string[]): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (!isPlainObject(value)) {
+    problems.push(`"${key}" must be an object of rule settings`);
+    return;
+  }
+
+  Object.entries(value).forEach(([rule, setting]) => {
+    if (!(RULE_SETTINGS as readonly unknown[]).includes(setting)) {
+      problems.push(
+        `"${key}.${rule}" must be one of ${RULE_SETTINGS.join(", ")}`,
+      );
+    }
+  });
+}
+
+function checkUnknownKeys(
+  value: Record<string, unknown>,
+  allowed: readonly string[],
+  prefix: string,
+  problems: string[],
+): void {
+  Object.keys(value)
+    .filter((key) => !allowed.includes(key))
+    .forEach((key) => problems.push(`unknown option "${prefix}${key}"`));
+}
+
+/**
+ * Validate a parsed config object against the schema
+ */
+export function validateConfig(
+  raw: unknown,
+  configPath: string,
+): VibecurbConfig {
+  const problems: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    throw new ConfigError(configPath, ["config must be a JSON object"]);
+  }
+
+  checkUnknownKeys(raw, TOP_LEVEL_KEYS, "", problems);
+  checkStringArray(raw.extensions, "extensions", problems);
+  checkStringArray(raw.exclude, "exclude", problems);
+  checkStringArray(raw.include, "include", problems);
+  checkSeverity(raw.severity, "severity", problems);
+  checkRules(raw.rules, "rules", problems);
+  checkStringArray(raw.disabledRules, "disabledRules", problems);
+  checkStringArray(raw.rulePacks, "rulePacks", problems);
+
+  if (
+    raw.scanGenerated !== undefined &&
+    typeof raw.scanGenerated !== "boolean"
+  ) {
+    problems.push(`"scanGenerated" must be true or false`);
+  }
+
+  if (raw.baseline !== undefined && typeof raw.baseline !== "string") {
+    problems.push(`"baseline" must be a file path`);
+  }
+
+  if (raw.entropy !== undefined) {
+    if (!isPlainObject(raw.entropy)) {
+      problems.push(`"entropy" must be an object`);
+    } else {
+      const entropy = raw.entropy;
+      checkUnknownKeys(entropy, ENTROPY_KEYS, "entropy.", problems);
+      ENTROPY_KEYS.forEach((key) => {
+        const value = entropy[key];
+        if (value !== undefined && (typeof value !== "number" || value <= 0)) {
+          problems.push(`"entropy.${key}" must be a positive number`);
+        }
+      });
+    }
+  }
+
+  if (raw.verify !== undefined) {
+    if (!isPlainObject(raw.verify)) {
+      problems.push(`"verify" must be an object`);
+    } else {
+      const verify = raw.verify;
+      checkUnknownKeys(verify, VERIFY_KEYS, "verify.", problems);
+      if (
+        verify.baseUrls !== undefined &&
+        (!isPlainObject(verify.baseUrls) ||
+          Object.values(verify.baseUrls).some((url) => typeof url !== "string"))
+      ) {
+        problems.push(`"verify.baseUrls" must map provider names to URLs`);
+      }
+      if (
+        verify.timeout !== undefined &&
+        (typeof verify.timeout !== "number" || verify.timeout <= 0)
+      ) {
+        problems.push(`"verify.timeout" must be a positive number`);
+      }
+    }
+  }
+
+  if (raw.overrides !== undefined) {
+    if (!Array.isArray(raw.overrides)) {
+      problems.push(`"overrides" must be an array`);
+    } else {
+      raw.overrides.forEach((override: unknown, index: number) => {
+        const key = `overrides[${index}]`;
+
+        if (!isPlainObject(override)) {
+          problems.push(`"${key}" must be an object`);
+          return;
+        }
+
+        checkUnknownKeys(override, OVERRIDE_KEYS, `${key}.`, problems);
+
+        if (
+          !Array.isArray(override.files) ||
+          override.files.length === 0 ||
+          override.files.some((f) => typeof f !== "string")
+        ) {
+          problems.push(`"${key}.files" must be a non-empty array of globs`);
+        }
+
+        checkSeverity(override.severity, `${key}.severity`, problems);
+        checkRules(override.rules, `${key}.rules`, problems);
+        checkStringArray(
+          override.disabledRules,
+          `${key}.disabledRules`,
+          problems,
+        );
+      });
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(configPath, problems);
+  }
+
+  return raw as VibecurbConfig;
+}
+
+/**
+ * Normalize rule settings and disabled rules to a map keyed by rule id
+ */
+function normalizeRules(
+  rules: Readonly<Record<string, RuleSetting>> = {},
+  disabledRules: readonly string[] = [],
+): Record<string, RuleSetting> {
+  const normalized: Record<string, RuleSetting> = {};
+
+  Object.entries(rules).forEach(([rule, setting]) => {
+    normalized[toRuleId(rule)] = setting;
+  });
+
+  disabledRules.forEach((rule) => {
+    normalized[toRuleId(rule)] = "off";
+  });
+
+  return normalized;
+}
+
+function normalizeExtension(ext: string): string {
+  const lower = ext.toLowerCase();
+  return lower.startsWith(".") ? lower : `.${lower}`;
+}
+
+/**
+ * Merge the rc file with CLI flags. Flags win.
+ * Rule packs are loaded here, so a broken pack throws RulePackError.
+ */
+export function resolveConfig(
+  loaded: LoadedConfig,
+  flags: CliConfigFlags = {},
+  scanPath: string = process.cwd(),
+): ResolvedConfig {
+  const { config } = loaded;
+  const extensions = flags.extensions ?? config.extensions;
+  const rootDir = loaded.path
+    ? path.dirname(loaded.path)
+    : path.resolve(scanPath);
+  const baseline = flags.baseline ?? config.baseline ?? BASELINE_FILE_NAME;
+
+  return {
+    rootDir,
+    configPath: loaded.path,
+    extensions: extensions?.map(normalizeExtension),
+    exclude: flags.exclude ?? config.exclude,
+    include: flags.include ?? config.include,
+    severity: flags.severity ?? config.severity ?? "all",
+    rules: normalizeRules(config.rules, config.disabledRules),
+    overrides: (config.overrides ?? []).map((override: ConfigOverride) => ({
+      files: override.files,
+      severity: override.severity,
+      rules: normalizeRules(override.rules, override.disabledRules),
+    })),
+    entropy: { ...DEFAULT_ENTROPY_OPTIONS, ...config.entropy },
+    rulePacks: loadRulePacks(
+      (config.rulePacks ?? []).map((pack) => path.resolve(rootDir, pack)),
+      builtInRuleIds(),
+    ),
+    verify: { ...DEFAULT_VERIFY_OPTIONS, ...config.verify },
+    baselinePath:
+      baseline === false
+        ? null
+        : flags.baseline
+          ? path.resolve(flags.baseline)
+          : path.resolve(rootDir, baseline),
+    severityFromCli: flags.severity !== undefined,
+    scanGenerated: flags.scanGenerated ?? config.scanGenerated ?? false,
+  };
+}
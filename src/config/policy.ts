@@ -0,0 +1,62 @@
+/**
+ * Per-file rule policy derived from a resolved config
+ */
+
+import * as path from "path";
+import { NetworkPattern } from "../scanner/network-patterns";
+import { FileScanOptions, RuleSetting } from "../scanner/types";
+import { matchesAnyGlob } from "../utils/glob";
+import { ResolvedConfig } from "./types";
+
+/**
+ * Path of a file relative to the config root, using forward slashes
+ */
+export function relativeToConfig(
+  config: ResolvedConfig,
+  filePath: string,
+): string {
+  return path
+    .relative(config.rootDir, path.resolve(filePath))
+    .split(path.sep)
+    .join("/");
+}
+
+/**
+ * Resolve severity filter, rule settings and rule pack rules for one file.
+ * Later overrides win over earlier ones and over the top-level settings.
+ */
+export function resolveFilePolicy(
+  config: ResolvedConfig,
+  filePath: string,
+): FileScanOptions {
+  const relativePath = relativeToConfig(config, filePath);
+  let severity = config.severity;
+  let rules: Record<string, RuleSetting> = { ...config.rules };
+
+  config.overrides.forEach((override) => {
+    if (!matchesAnyGlob(relativePath, override.files)) {
+      return;
+    }
+
+    if (override.severity && !config.severityFromCli) {
+      severity = override.severity;
+    }
+    rules = { ...rules, ...override.rules };
+  });
+
+  const packRules = config.rulePacks
+    .flatMap((pack) => pack.rules)
+    .filter((rule) => !rule.files || matchesAnyGlob(relativePath, rule.files));
+
+  return {
+    severity,
+    rules,
+    entropy: config.entropy,
+    customPatterns: packRules
+      .filter((rule) => rule.category === "secret")
+      .map((rule) => rule.pattern),
+    customNetworkPatterns: packRules
+      .filter((rule) => rule.category !== "secret")
+      .map((rule) => rule.pattern as NetworkPattern),
+  };
+}
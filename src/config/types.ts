@@ -0,0 +1,82 @@
+/**
+ * Type definitions for .vibecurbrc.json
+ */
+
+import { RulePack } from "../scanner/rule-packs";
+import { EntropyOptions, RuleSetting, SeverityFilter } from "../scanner/types";
+import { VerifyOptions } from "../verify/verify";
+
+export interface ConfigOverride {
+  /** Globs relative to the config file directory */
+  readonly files: readonly string[];
+  readonly severity?: SeverityFilter;
+  readonly rules?: Readonly<Record<string, RuleSetting>>;
+  readonly disabledRules?: readonly string[];
+}
+
+export interface VibecurbConfig {
+  readonly extensions?: readonly string[];
+  /** Globs for directories and files to skip, relative to the scan root */
+  readonly exclude?: readonly string[];
+  /** Globs files must match to be scanned */
+  readonly include?: readonly string[];
+  readonly severity?: SeverityFilter;
+  readonly rules?: Readonly<Record<string, RuleSetting>>;
+  readonly disabledRules?: readonly string[];
+  readonly overrides?: readonly ConfigOverride[];
+  /** Baseline file, relative to the config file */
+  readonly baseline?: string;
+  readonly entropy?: Partial<EntropyOptions>;
+  /** Custom rule pack files (YAML or JSON), relative to the config file */
+  readonly rulePacks?: readonly string[];
+  /** Provider base URLs and timeout for --verify */
+  readonly verify?: Partial<VerifyOptions>;
+  /** Also scan files that look generated or minified */
+  readonly scanGenerated?: boolean;
+}
+
+export interface LoadedConfig {
+  /** Absolute path of the rc file, or null when none was found */
+  readonly path: string | null;
+  readonly config: VibecurbConfig;
+}
+
+/**
+ * Options given on the command line; these win over the rc file
+ */
+export interface CliConfigFlags {
+  readonly extensions?: readonly string[];
+  readonly exclude?: readonly string[];
+  readonly include?: readonly string[];
+  readonly severity?: SeverityFilter;
+  /** Baseline file, or false to report baselined findings too */
+  readonly baseline?: string | false;
+  readonly scanGenerated?: boolean;
+}
+
+export interface ResolvedOverride {
+  readonly files: readonly string[];
+  readonly severity?: SeverityFilter;
+  readonly rules: Readonly<Record<string, RuleSetting>>;
+}
+
+export interface ResolvedConfig {
+  /** Directory that override globs are relative to */
+  readonly rootDir: string;
+  readonly configPath: string | null;
+  readonly extensions?: readonly string[];
+  readonly exclude?: readonly string[];
+  readonly include?: readonly string[];
+  readonly severity: SeverityFilter;
+  /** Rule settings keyed by rule id */
+  readonly rules: Readonly<Record<string, RuleSetting>>;
+  readonly overrides: readonly ResolvedOverride[];
+  readonly entropy: EntropyOptions;
+  readonly rulePacks: readonly RulePack[];
+  readonly verify: VerifyOptions;
+  /** Absolute baseline path, or null when baselines are disabled */
+  readonly baselinePath: string | null;
+  /** True when --severity was passed, so overrides must not change it */
+  readonly severityFromCli: boolean;
+  readonly scanGenerated: boolean;
+}
@@ -1,26 +1,101 @@
 /**
  * Auto-fix generator for secrets
- * Extracts secrets to .env file and replaces with process.env references
+ * Extracts secrets to .env file and replaces the matched literal with an
+ * environment reference from the file's fix strategy. Every run is recorded
+ * in the fix journal.
  */
 
 import * as fs from "fs";
 import * as path from "path";
 import { Finding } from "../scanner/types";
+import {
+  detectProject,
+  isClientCode,
+  PUBLIC_ENV_PREFIXES,
+} from "../scanner/framework";
+import { createPatch } from "./diff";
+import { hashContent, JournalFile, recordRun, STATE_DIR_NAME } from "./journal";
+import { manualFixReason, resolveFixStrategy } from "./strategies";
 
 export interface FixResult {
   readonly success: boolean;
   readonly message: string;
   readonly envVars: readonly string[];
   readonly filesModified: readonly string[];
-  readonly backupCreated?: string;
+  readonly skipped: readonly SkippedFix[];
 }
 
-interface EnvMapping {
-  readonly pattern: string;
-  readonly envName: string;
+export interface SourceEdit {
+  /** Offsets into the original content */
+  readonly start: number;
+  readonly end: number;
+  readonly replacement: string;
+  readonly lineNumber: number;
+  readonly column: number;
+}
+
+export interface FileChange {
+  readonly filePath: string;
+  /** Original content, or null when the file is created */
+  readonly before: string | null;
+  readonly after: string;
+  readonly edits: readonly SourceEdit[];
+}
+
+export interface SkippedFix {
+  readonly finding: Finding;
+  readonly reason: string;
+}
+
+export interface FixPlan {
+  readonly rootDir: string;
+  readonly changes: readonly FileChange[];
+  readonly envVars: readonly string[];
+  /** Values of the secrets the plan moves, for masking previews */
+  readonly secretValues: readonly string[];
+  readonly skipped: readonly SkippedFix[];
+}
+
+export interface FixPreview {
+  /** Unified diff of every change, applicable with git apply when unmasked */
+  readonly patch: string;
+  readonly envVars: readonly string[];
+  readonly filesToModify: readonly string[];
+  readonly skipped: readonly SkippedFix[];
+}
+
+interface StringLiteral {
+  /** Offset of the opening quote within the line */
+  readonly start: number;
+  /** Offset just past the closing quote */
+  readonly end: number;
+  readonly quote: string;
+}
+
+interface PlannedEdit {
+  readonly start: number;
+  readonly end: number;
+  readonly lineNumber: number;
+  readonly column: number;
+  readonly finding: Finding;
+  /** The secret as written in the source, and where it is */
   readonly value: string;
+  readonly valueStart: number;
+  readonly valueEnd: number;
+  readonly render: (reference: string) => string;
 }
 
+// Findings store at most this many characters of the match
+const MAX_MATCH_LENGTH = 100;
+export const GITIGNORE_ENTRIES = [
+  ".env",
+  ".env.local",
+  ".env.*.local",
+  `${STATE_DIR_NAME}/`,
+];
+const ENV_LINE_REGEX =
+  /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/;
+
 /**
  * Generate environment variable name from pattern
  */
@@ -64,126 +139,465 @@ function generateUniqueEnvVarName(
   return envName;
 }
 
+function readIfExists(filePath: string): string | null {
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : null;
+}
+
 /**
- * Create .env file with extracted secrets
+ * Append lines to a file's content, keeping a trailing newline
  */
-function createEnvFile(
-  projectPath: string,
-  mappings: readonly EnvMapping[],
-): string {
-  const envPath = path.join(projectPath, ".env");
-  const envContent = mappings.map((m) => `${m.envName}=${m.value}`).join("\n");
-
-  // Check if .env already exists
-  if (fs.existsSync(envPath)) {
-    // Append to existing
-    const existing = fs.readFileSync(envPath, "utf8");
-    fs.writeFileSync(envPath, `${existing}\n${envContent}`);
-  } else {
-    // Create new
-    fs.writeFileSync(envPath, envContent);
+function appendLines(content: string | null, lines: readonly string[]): string {
+  const existing = content ?? "";
+  const separator = existing && !existing.endsWith("\n") ? "\n" : "";
+  return `${existing}${separator}${lines.join("\n")}\n`;
+}
+
+/**
+ * Quote a .env value when it holds characters that would end or change it:
+ * single quotes keep it literal, double quotes with escapes when it has a
+ * single quote itself
+ */
+function formatEnvValue(value: string): string {
+  if (!/[\s#"'`$\\]/.test(value)) {
+    return value;
+  }
+  if (!/['\n\r]/.test(value)) {
+    return `'${value}'`;
   }
+  const escaped = value
+    .replace(/[\\"$`]/g, "\\$&")
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r");
+  return `"${escaped}"`;
+}
 
-  return envPath;
+/**
+ * Read a .env value back, undoing formatEnvValue's quoting
+ */
+function parseEnvValue(raw: string): string {
+  const quoted = /^(["'])(.*)\1$/.exec(raw);
+  if (!quoted) {
+    return raw;
+  }
+  if (quoted[1] === "'") {
+    return quoted[2];
+  }
+  return quoted[2].replace(/\\(.)/g, (_, char: string) =>
+    char === "n" ? "\n" : char === "r" ? "\r" : char,
+  );
 }
 
 /**
- * Create .env.example file
+ * Variables already defined in a .env file
  */
-function createEnvExample(
-  projectPath: string,
-  envVars: readonly string[],
-): string {
-  const examplePath = path.join(projectPath, ".env.example");
+function parseEnvFile(content: string | null): Map<string, string> {
+  const vars = new Map<string, string>();
+
+  (content ?? "").split("\n").forEach((line) => {
+    const match = ENV_LINE_REGEX.exec(line);
+    if (match) {
+      vars.set(match[1], parseEnvValue(match[2]));
+    }
+  });
 
-  const exampleContent = envVars
-    .map((v) => `${v}=your_${v.toLowerCase()}_here`)
-    .join("\n");
+  return vars;
+}
 
-  fs.writeFileSync(examplePath, exampleContent);
-  return examplePath;
+/**
+ * Find quoted string literals on one line
+ */
+function findStringLiterals(line: string): StringLiteral[] {
+  const literals: StringLiteral[] = [];
+
+  for (let i = 0; i < line.length; i++) {
+    const quote = line[i];
+    if (quote !== '"' && quote !== "'" && quote !== "`") {
+      continue;
+    }
+
+    let j = i + 1;
+    while (j < line.length && line[j] !== quote) {
+      j += line[j] === "\\" ? 2 : 1;
+    }
+    if (j >= line.length) {
+      break;
+    }
+
+    literals.push({ start: i, end: j + 1, quote });
+    i = j;
+  }
+
+  return literals;
 }
 
 /**
- * Update .gitignore to exclude .env
+ * Locate the secret inside a string literal. The match is either inside a
+ * literal (a token) or contains one (`apiKey = "..."`).
  */
-function updateGitignore(projectPath: string): string | null {
-  const gitignorePath = path.join(projectPath, ".gitignore");
-  const envEntries = [".env", ".env.local", ".env.*.local"];
-
-  if (!fs.existsSync(gitignorePath)) {
-    // Create new .gitignore
-    fs.writeFileSync(gitignorePath, envEntries.join("\n") + "\n");
-    return gitignorePath;
+function locateSecret(
+  line: string,
+  matchStart: number,
+  matchEnd: number,
+  truncated: boolean,
+): { literal: StringLiteral; start: number; end: number } | null {
+  const literals = findStringLiterals(line);
+
+  const enclosing = literals.find(
+    (l) => l.start < matchStart && l.end - 1 >= matchEnd,
+  );
+  if (enclosing) {
+    // A truncated match runs on to the end of its literal
+    const end = truncated ? enclosing.end - 1 : matchEnd;
+    return { literal: enclosing, start: matchStart, end };
   }
 
-  const content = fs.readFileSync(gitignorePath, "utf8");
-  const lines = content.split("\n");
+  const inner = literals
+    .filter(
+      (l) =>
+        l.start >= matchStart &&
+        l.start < matchEnd &&
+        (truncated || l.end <= matchEnd),
+    )
+    .pop();
+  if (inner && inner.end - inner.start > 2) {
+    return { literal: inner, start: inner.start + 1, end: inner.end - 1 };
+  }
 
-  // Check which entries are missing
-  const missing = envEntries.filter((entry) => !lines.includes(entry));
+  return null;
+}
 
-  if (missing.length > 0) {
-    fs.writeFileSync(gitignorePath, `${content}\n${missing.join("\n")}\n`);
-    return gitignorePath;
+/**
+ * Span to replace, and a replacement that keeps the rest of the literal
+ * around the env reference
+ */
+function buildReplacement(
+  line: string,
+  literal: StringLiteral,
+  start: number,
+  end: number,
+): { start: number; end: number; render: (reference: string) => string } {
+  const prefix = line.slice(literal.start + 1, start);
+  const suffix = line.slice(end, literal.end - 1);
+
+  if (!prefix && !suffix) {
+    return {
+      start: literal.start,
+      end: literal.end,
+      render: (reference) => reference,
+    };
+  }
+  if (literal.quote === "`") {
+    return { start, end, render: (reference) => `\${${reference}}` };
   }
 
-  return null; // Already has .env entries
+  const quoted = (text: string) =>
+    text ? `${literal.quote}${text}${literal.quote}` : "";
+  return {
+    start: literal.start,
+    end: literal.end,
+    render: (reference) =>
+      [quoted(prefix), reference, quoted(suffix)].filter(Boolean).join(" + "),
+  };
+}
+
+function lineOffsets(content: string): number[] {
+  const offsets = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") {
+      offsets.push(i + 1);
+    }
+  }
+  return offsets;
 }
 
 /**
- * Create backup of original file
+ * Keep one edit of each group that touches the same text: the one with the
+ * widest secret, then errors before warnings. The others are skipped, as
+ * their rewrites of the same literal cannot be combined.
  */
-function createBackup(filePath: string): string {
-  const backupPath = `${filePath}.backup`;
-  fs.copyFileSync(filePath, backupPath);
-  return backupPath;
+function resolveOverlaps(
+  edits: readonly PlannedEdit[],
+  skipped: SkippedFix[],
+): PlannedEdit[] {
+  const sorted = [...edits].sort((a, b) => a.start - b.start || b.end - a.end);
+  const groups: PlannedEdit[][] = [];
+
+  sorted.forEach((edit) => {
+    const group = groups[groups.length - 1];
+    if (group && group.some((other) => edit.start < other.end)) {
+      group.push(edit);
+    } else {
+      groups.push([edit]);
+    }
+  });
+
+  const priority = (edit: PlannedEdit) =>
+    (edit.valueEnd - edit.valueStart) * 2 +
+    (edit.finding.severity === "error" ? 1 : 0);
+
+  return groups.map((group) => {
+    const [kept, ...dropped] = [...group].sort(
+      (a, b) => priority(b) - priority(a),
+    );
+    dropped.forEach(({ finding, valueStart, valueEnd }) =>
+      skipped.push({
+        finding,
+        reason:
+          valueStart >= kept.valueStart && valueEnd <= kept.valueEnd
+            ? `moved to .env as part of the ${kept.finding.pattern} value`
+            : "overlaps another fix on the same line",
+      }),
+    );
+    return kept;
+  });
+}
+
+function applyEdits(content: string, edits: readonly SourceEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, edit) =>
+        text.slice(0, edit.start) + edit.replacement + text.slice(edit.end),
+      content,
+    );
 }
 
 /**
- * Apply fixes to a single file
+ * Insert an import before the first one, or after leading comment lines
  */
-function applyFixesToFile(
-  filePath: string,
+function importEdit(content: string, statement: string): SourceEdit {
+  const firstImport = /^(?:import|from)\s/m.exec(content);
+  const offset = firstImport
+    ? firstImport.index
+    : (/^(?:#[^\n]*\n)*/.exec(content)?.[0].length ?? 0);
+
+  return {
+    start: offset,
+    end: offset,
+    replacement: `${statement}\n`,
+    lineNumber: content.slice(0, offset).split("\n").length,
+    column: 1,
+  };
+}
+
+function projectRoot(projectPath: string): string {
+  const resolved = path.resolve(projectPath);
+  return fs.existsSync(resolved) && fs.statSync(resolved).isFile()
+    ? path.dirname(resolved)
+    : resolved;
+}
+
+/**
+ * Work out every change a fix would make, without writing anything.
+ * options.contents holds unsaved file contents by absolute path, read
+ * instead of the files on disk.
+ */
+export function planFixes(
+  projectPath: string,
   findings: readonly Finding[],
-  envMappings: Map<string, string>, // match -> envVar
-): boolean {
-  try {
-    const content = fs.readFileSync(filePath, "utf8");
-    let modified = content;
-
-    // Create backup first
-    createBackup(filePath);
-
-    // Replace each finding with env reference
-    findings.forEach((finding) => {
-      const envVar = envMappings.get(finding.match);
-      if (envVar) {
-        // Replace the entire assignment with env reference
-        const patterns: Record<string, RegExp> = {
-          "API Key (Generic)":
-            /(api[_-]?key|apikey)\s*[:=]\s*["\'][^"\']+["\']/gi,
-          "Database URL":
-            /(const|let|var)\s+\w+\s*=\s*["\'][^"\']*(mongodb|mysql|postgres)[^"\']*["\']/gi,
-          "JWT Token": /(const|let|var)\s+\w+\s*=\s*["\']eyJ[^"\']*["\']/gi,
-          "Email Address":
-            /(const|let|var)\s+\w+\s*=\s*["\'][^"\']*@[^"\']+["\']/gi,
-        };
+  options: { contents?: ReadonlyMap<string, string> } = {},
+): FixPlan {
+  const rootDir = projectRoot(projectPath);
+  const read = (filePath: string) =>
+    options.contents?.get(filePath) ?? readIfExists(filePath);
+  const envPath = path.join(rootDir, ".env");
+  const examplePath = path.join(rootDir, ".env.example");
+  const gitignorePath = path.join(rootDir, ".gitignore");
+
+  const envContent = read(envPath);
+  const existingVars = parseEnvFile(envContent);
+  const usedNames = new Set(existingVars.keys());
+  const newVars: string[] = [];
+  const runVars: string[] = [];
+  const secretValues = new Set<string>();
+
+  // Reuse a variable that already holds the value, unless it is public and
+  // so shipped to the browser
+  const publicPrefixes = Object.values(PUBLIC_ENV_PREFIXES);
+  const envVarFor = (finding: Finding, value: string): string => {
+    let envName = Array.from(existingVars).find(
+      ([name, existing]) =>
+        existing === value && !publicPrefixes.some((p) => name.startsWith(p)),
+    )?.[0];
+    if (!envName) {
+      envName = generateUniqueEnvVarName(finding.pattern, usedNames);
+      existingVars.set(envName, value);
+      newVars.push(`${envName}=${formatEnvValue(value)}`);
+    }
+    secretValues.add(value);
+    if (!runVars.includes(envName)) {
+      runVars.push(envName);
+    }
+    return envName;
+  };
 
-        const pattern = patterns[finding.pattern];
-        if (pattern) {
-          modified = modified.replace(pattern, `process.env.${envVar}`);
-        }
+  const findingsByFile = new Map<string, Finding[]>();
+  findings.forEach((finding) => {
+    const filePath = path.resolve(finding.filePath);
+    const fileFindings = findingsByFile.get(filePath) || [];
+    fileFindings.push(finding);
+    findingsByFile.set(filePath, fileFindings);
+  });
+
+  const changes: FileChange[] = [];
+  const skipped: SkippedFix[] = [];
+
+  findingsByFile.forEach((fileFindings, filePath) => {
+    const content = read(filePath);
+    if (content === null) {
+      fileFindings.forEach((finding) =>
+        skipped.push({ finding, reason: "file not found" }),
+      );
+      return;
+    }
+
+    const project = detectProject(filePath, rootDir);
+    const context = {
+      filePath,
+      framework: project.framework,
+      clientSide: isClientCode(filePath, content, project),
+    };
+    const strategy = resolveFixStrategy(context);
+    if (!strategy) {
+      const reason = manualFixReason(context);
+      fileFindings.forEach((finding) => skipped.push({ finding, reason }));
+      return;
+    }
+
+    const offsets = lineOffsets(content);
+    const lines = content.split("\n");
+    const planned: PlannedEdit[] = [];
+
+    fileFindings.forEach((finding) => {
+      const line = lines[finding.lineNumber - 1];
+      const matchStart = finding.column - 1;
+      const matchEnd = matchStart + finding.match.length;
+
+      if (line?.slice(matchStart, matchEnd) !== finding.match) {
+        skipped.push({ finding, reason: "file changed since the scan" });
+        return;
+      }
+
+      const secret = locateSecret(
+        line,
+        matchStart,
+        matchEnd,
+        finding.match.length >= MAX_MATCH_LENGTH,
+      );
+      if (!secret) {
+        skipped.push({ finding, reason: "not inside a string literal" });
+        return;
       }
+
+      const { start, end, render } = buildReplacement(
+        line,
+        secret.literal,
+        secret.start,
+        secret.end,
+      );
+      const lineStart = offsets[finding.lineNumber - 1];
+
+      planned.push({
+        start: lineStart + start,
+        end: lineStart + end,
+        lineNumber: finding.lineNumber,
+        column: start + 1,
+        finding,
+        value: line.slice(secret.start, secret.end),
+        valueStart: lineStart + secret.start,
+        valueEnd: lineStart + secret.end,
+        render,
+      });
     });
 
-    // Write modified content
-    fs.writeFileSync(filePath, modified);
-    return true;
-  } catch (error) {
-    console.error(`Failed to fix ${filePath}:`, error);
-    return false;
+    // Name variables only for the edits that are kept
+    const edits: SourceEdit[] = resolveOverlaps(planned, skipped).map(
+      ({ start, end, lineNumber, column, finding, value, render }) => ({
+        start,
+        end,
+        lineNumber,
+        column,
+        replacement: render(strategy.reference(envVarFor(finding, value))),
+      }),
+    );
+    const { requiredImport } = strategy;
+    if (
+      edits.length > 0 &&
+      requiredImport &&
+      !requiredImport.present.test(content)
+    ) {
+      // Last, so it lands before an edit at the same offset
+      edits.push(importEdit(content, requiredImport.statement));
+    }
+    if (edits.length > 0) {
+      changes.push({
+        filePath,
+        before: content,
+        after: applyEdits(content, edits),
+        edits,
+      });
+    }
+  });
+
+  if (newVars.length > 0) {
+    changes.push({
+      filePath: envPath,
+      before: envContent,
+      after: appendLines(envContent, newVars),
+      edits: [],
+    });
+  }
+
+  const exampleContent = read(examplePath);
+  const exampleVars = parseEnvFile(exampleContent);
+  const missingExamples = runVars.filter((v) => !exampleVars.has(v));
+  if (missingExamples.length > 0) {
+    changes.push({
+      filePath: examplePath,
+      before: exampleContent,
+      after: appendLines(
+        exampleContent,
+        missingExamples.map((v) => `${v}=your_${v.toLowerCase()}_here`),
+      ),
+      edits: [],
+    });
+  }
+
+  const gitignoreContent = read(gitignorePath);
+  const ignored = (gitignoreContent ?? "").split("\n").map((l) => l.trim());
+  const missingIgnores = GITIGNORE_ENTRIES.filter((e) => !ignored.includes(e));
+  if (runVars.length > 0 && missingIgnores.length > 0) {
+    changes.push({
+      filePath: gitignorePath,
+      before: gitignoreContent,
+      after: appendLines(gitignoreContent, missingIgnores),
+      edits: [],
+    });
   }
+
+  return {
+    rootDir,
+    changes,
+    envVars: runVars,
+    secretValues: Array.from(secretValues),
+    skipped,
+  };
+}
+
+function toJournalFile(rootDir: string, change: FileChange): JournalFile {
+  return {
+    path: path.relative(rootDir, change.filePath).split(path.sep).join("/"),
+    before: change.before,
+    afterHash: hashContent(change.after),
+    edits: change.edits.map(
+      ({ lineNumber, column, start, end, replacement }) => ({
+        lineNumber,
+        column,
+        length: end - start,
+        replacement,
+      }),
+    ),
+  };
 }
 
 /**
@@ -193,11 +607,6 @@ export function autoFix(
   projectPath: string,
   findings: readonly Finding[],
 ): FixResult {
-  const usedNames = new Set<string>();
-  const envMappings: Map<string, string> = new Map();
-  const mappings: EnvMapping[] = [];
-  const filesModified: string[] = [];
-
   // Skip if no findings
   if (findings.length === 0) {
     return {
@@ -205,57 +614,35 @@ export function autoFix(
       message: "No secrets found to fix",
       envVars: [],
       filesModified: [],
+      skipped: [],
     };
   }
 
   try {
-    // Generate mappings
-    findings.forEach((finding) => {
-      if (!envMappings.has(finding.match)) {
-        const envName = generateUniqueEnvVarName(finding.pattern, usedNames);
-        envMappings.set(finding.match, envName);
-        mappings.push({
-          pattern: finding.pattern,
-          envName,
-          value: finding.match,
-        });
-      }
-    });
-
-    // Group findings by file
-    const findingsByFile = new Map<string, Finding[]>();
-    findings.forEach((finding) => {
-      const fileFindings = findingsByFile.get(finding.filePath) || [];
-      fileFindings.push(finding);
-      findingsByFile.set(finding.filePath, fileFindings);
-    });
-
-    // Apply fixes to each file
-    findingsByFile.forEach((fileFindings, filePath) => {
-      if (applyFixesToFile(filePath, fileFindings, envMappings)) {
-        filesModified.push(filePath);
-      }
-    });
-
-    // Create .env file
-    createEnvFile(projectPath, mappings);
-
-    // Create .env.example
-    createEnvExample(
-      projectPath,
-      mappings.map((m) => m.envName),
-    );
-
-    // Update .gitignore
-    updateGitignore(projectPath);
-
-    const envVarNames = mappings.map((m) => m.envName);
+    const plan = planFixes(projectPath, findings);
+    const sourceChanges = plan.changes.filter((c) => c.edits.length > 0);
+
+    if (plan.changes.length > 0) {
+      // Journal first, so an interrupted run can still be undone
+      recordRun(plan.rootDir, {
+        createdAt: new Date().toISOString(),
+        files: plan.changes.map((change) =>
+          toJournalFile(plan.rootDir, change),
+        ),
+      });
+      plan.changes.forEach((change) =>
+        fs.writeFileSync(change.filePath, change.after),
+      );
+    }
+
+    const fixedCount = findings.length - plan.skipped.length;
 
     return {
       success: true,
-      message: `Fixed ${findings.length} secret(s) in ${filesModified.length} file(s)`,
-      envVars: envVarNames,
-      filesModified,
+      message: `Fixed ${fixedCount} secret(s) in ${sourceChanges.length} file(s)`,
+      envVars: plan.envVars,
+      filesModified: sourceChanges.map((c) => c.filePath),
+      skipped: plan.skipped,
     };
   } catch (error) {
     return {
@@ -263,29 +650,88 @@ export function autoFix(
       message: `Auto-fix failed: ${error instanceof Error ? error.message : "Unknown error"}`,
       envVars: [],
       filesModified: [],
+      skipped: [],
     };
   }
 }
 
 /**
- * Preview what fixes would be applied (dry run)
+ * Keep a short prefix so reviewers can tell secrets apart
  */
-export function previewFixes(findings: readonly Finding[]): {
-  readonly envVars: readonly string[];
-  readonly filesToModify: readonly string[];
-} {
-  const usedNames = new Set<string>();
-  const envVars: string[] = [];
-  const filesToModify = new Set<string>();
+export function maskSecret(value: string): string {
+  return value.length > 12 ? `${value.slice(0, 4)}********` : "********";
+}
 
-  findings.forEach((finding) => {
-    const envName = generateUniqueEnvVarName(finding.pattern, usedNames);
-    envVars.push(`${envName}=${finding.match.substring(0, 20)}...`);
-    filesToModify.add(finding.filePath);
-  });
+function maskAll(content: string, values: readonly string[]): string {
+  // Longest first, so a secret containing another is masked whole
+  return [...values]
+    .sort((a, b) => b.length - a.length)
+    .reduce(
+      (text, value) => text.split(value).join(maskSecret(value)),
+      content,
+    );
+}
+
+const ENV_VALUE_REGEX =
+  /^(\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*=\s*)(.*?)(\s*)$/;
+
+/**
+ * Mask every value in .env content, so the variables already there do
+ * not show up as diff context
+ */
+function maskEnvValues(content: string): string {
+  return content
+    .split("\n")
+    .map((line) =>
+      line.replace(
+        ENV_VALUE_REGEX,
+        (_, name: string, value: string, end: string) => {
+          const quote = /^(["'])(.*)\1$/.exec(value);
+          const masked = quote
+            ? `${quote[1]}${maskSecret(quote[2])}${quote[1]}`
+            : maskSecret(value);
+          return value ? `${name}${masked}${end}` : line;
+        },
+      ),
+    )
+    .join("\n");
+}
+
+/**
+ * Preview what fixes would be applied (dry run) as a unified diff
+ */
+export function previewFixes(
+  projectPath: string,
+  findings: readonly Finding[],
+  options: { mask?: boolean; contents?: ReadonlyMap<string, string> } = {},
+): FixPreview {
+  const plan = planFixes(projectPath, findings, options);
+  const envPath = path.join(plan.rootDir, ".env");
 
   return {
-    envVars,
-    filesToModify: Array.from(filesToModify),
+    patch: createPatch(
+      plan.rootDir,
+      plan.changes.map((change) => {
+        const mask = (content: string) => {
+          if (options.mask === false) {
+            return content;
+          }
+          return maskAll(
+            change.filePath === envPath ? maskEnvValues(content) : content,
+            plan.secretValues,
+          );
+        };
+        return {
+          filePath: change.filePath,
+          before: change.before === null ? null : mask(change.before),
+          after: mask(change.after),
+        };
+      }),
+    ),
+    envVars: plan.envVars,
+    filesToModify: plan.changes
+      .filter((c) => c.edits.length > 0)
+      .map((c) => c.filePath),
+    skipped: plan.skipped,
   };
 }
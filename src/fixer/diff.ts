@@ -0,0 +1,185 @@
+/**
+ * Unified diff output for fix previews
+ * Produces git-style patches that `git apply` accepts.
+ */
+
+import * as path from "path";
+
+export interface PatchFile {
+  readonly filePath: string;
+  /** Original content, or null for a new file */
+  readonly before: string | null;
+  readonly after: string;
+}
+
+interface Line {
+  readonly text: string;
+  readonly newline: boolean;
+}
+
+type Op = { readonly kind: " " | "-" | "+"; readonly line: Line };
+
+const CONTEXT_LINES = 3;
+const NO_NEWLINE = "\\ No newline at end of file";
+
+function toLines(content: string): Line[] {
+  if (content === "") {
+    return [];
+  }
+
+  const parts = content.split("\n");
+  const lastHasNewline = parts[parts.length - 1] === "";
+  if (lastHasNewline) {
+    parts.pop();
+  }
+
+  return parts.map((text, i) => ({
+    text,
+    newline: i < parts.length - 1 || lastHasNewline,
+  }));
+}
+
+function sameLine(a: Line, b: Line): boolean {
+  return a.text === b.text && a.newline === b.newline;
+}
+
+/**
+ * Myers' O(ND) diff; fast when only a few lines change
+ */
+function diffLines(a: readonly Line[], b: readonly Line[]): Op[] {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  const trace: number[][] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push([...v]);
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && sameLine(a[x], b[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        break outer;
+      }
+    }
+  }
+
+  // Walk the trace back from the end to recover the edit script
+  const ops: Op[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ kind: " ", line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ kind: "+", line: b[--y] });
+      } else {
+        ops.push({ kind: "-", line: a[--x] });
+      }
+    }
+  }
+
+  return ops.reverse();
+}
+
+function hunkRange(start: number, count: number): string {
+  // An empty range points at the line before it
+  return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+function formatHunks(ops: readonly Op[]): string[] {
+  const output: string[] = [];
+  const changed = ops
+    .map((op, i) => (op.kind === " " ? -1 : i))
+    .filter((i) => i >= 0);
+
+  let index = 0;
+  while (index < changed.length) {
+    // Grow the hunk while the next change is within reach of its context
+    let last = index;
+    while (
+      last + 1 < changed.length &&
+      changed[last + 1] - changed[last] <= CONTEXT_LINES * 2 + 1
+    ) {
+      last++;
+    }
+
+    const from = Math.max(0, changed[index] - CONTEXT_LINES);
+    const to = Math.min(ops.length, changed[last] + CONTEXT_LINES + 1);
+    const before = ops.slice(0, from);
+    const hunk = ops.slice(from, to);
+
+    const oldStart = before.filter((op) => op.kind !== "+").length + 1;
+    const newStart = before.filter((op) => op.kind !== "-").length + 1;
+    const oldCount = hunk.filter((op) => op.kind !== "+").length;
+    const newCount = hunk.filter((op) => op.kind !== "-").length;
+
+    output.push(
+      `@@ -${hunkRange(oldStart, oldCount)} +${hunkRange(newStart, newCount)} @@`,
+    );
+    hunk.forEach((op) => {
+      output.push(`${op.kind}${op.line.text}`);
+      if (!op.line.newline) {
+        output.push(NO_NEWLINE);
+      }
+    });
+
+    index = last + 1;
+  }
+
+  return output;
+}
+
+/**
+ * Diff one file; paths in the headers are relative to rootDir
+ */
+export function createFilePatch(rootDir: string, file: PatchFile): string {
+  const relative = path
+    .relative(rootDir, file.filePath)
+    .split(path.sep)
+    .join("/");
+  const ops = diffLines(toLines(file.before ?? ""), toLines(file.after));
+  if (ops.every((op) => op.kind === " ")) {
+    return "";
+  }
+
+  const header = [`diff --git a/${relative} b/${relative}`];
+  if (file.before === null) {
+    header.push("new file mode 100644", "--- /dev/null");
+  } else {
+    header.push(`--- a/${relative}`);
+  }
+  header.push(`+++ b/${relative}`);
+
+  return [...header, ...formatHunks(ops)].join("\n") + "\n";
+}
+
+/**
+ * Diff several files into one patch
+ */
+export function createPatch(
+  rootDir: string,
+  files: readonly PatchFile[],
+): string {
+  return files.map((file) => createFilePatch(rootDir, file)).join("");
+}
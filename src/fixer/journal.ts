@@ -0,0 +1,155 @@
+/**
+ * Fix journal - records what each auto-fix run changed so it can be undone
+ * The journal holds original file contents, including secrets, so the fixer
+ * adds its directory to .gitignore and only the owner can read it.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+export const STATE_DIR_NAME = ".vibecurb";
+export const JOURNAL_FILE_NAME = "fix-journal.json";
+
+export interface JournalEdit {
+  readonly lineNumber: number;
+  readonly column: number;
+  /** Length of the replaced source text */
+  readonly length: number;
+  readonly replacement: string;
+}
+
+export interface JournalFile {
+  /** Path relative to the project root, with forward slashes */
+  readonly path: string;
+  /** Content before the run, or null when the run created the file */
+  readonly before: string | null;
+  /** sha256 of the content the run wrote */
+  readonly afterHash: string;
+  readonly edits: readonly JournalEdit[];
+}
+
+export interface JournalRun {
+  readonly createdAt: string;
+  readonly files: readonly JournalFile[];
+}
+
+export interface Journal {
+  readonly version: 1;
+  readonly runs: readonly JournalRun[];
+}
+
+export interface UndoResult {
+  readonly restored: readonly string[];
+  readonly deleted: readonly string[];
+}
+
+/**
+ * Thrown when files were changed after the run being undone
+ */
+export class UndoConflictError extends Error {
+  constructor(readonly files: readonly string[]) {
+    super(
+      `Files changed since the last fix (use --force to restore anyway):\n${files.map((f) => `  - ${f}`).join("\n")}`,
+    );
+    this.name = "UndoConflictError";
+  }
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+export function getJournalPath(rootDir: string): string {
+  return path.join(rootDir, STATE_DIR_NAME, JOURNAL_FILE_NAME);
+}
+
+export function readJournal(rootDir: string): Journal {
+  const journalPath = getJournalPath(rootDir);
+  if (!fs.existsSync(journalPath)) {
+    return { version: 1, runs: [] };
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(journalPath, "utf8"));
+  if (parsed?.version !== 1 || !Array.isArray(parsed.runs)) {
+    throw new Error(`Unsupported fix journal: ${journalPath}`);
+  }
+  return parsed as Journal;
+}
+
+function writeJournal(rootDir: string, journal: Journal): void {
+  const journalPath = getJournalPath(rootDir);
+
+  if (journal.runs.length === 0) {
+    fs.rmSync(journalPath, { force: true });
+    const stateDir = path.dirname(journalPath);
+    if (fs.existsSync(stateDir) && fs.readdirSync(stateDir).length === 0) {
+      fs.rmdirSync(stateDir);
+    }
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+  const tempPath = `${journalPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(journal, null, 2) + "\n", {
+    mode: 0o600,
+  });
+  fs.renameSync(tempPath, journalPath);
+}
+
+/**
+ * Append a run to the journal
+ */
+export function recordRun(rootDir: string, run: JournalRun): void {
+  const journal = readJournal(rootDir);
+  writeJournal(rootDir, { ...journal, runs: [...journal.runs, run] });
+}
+
+/**
+ * Restore every file touched by the most recent run and drop it from the
+ * journal. Nothing is restored if a file changed since that run, unless
+ * force is set.
+ */
+export function undoLastFix(
+  rootDir: string,
+  options: { force?: boolean } = {},
+): UndoResult {
+  const journal = readJournal(rootDir);
+  const run = journal.runs[journal.runs.length - 1];
+  if (!run) {
+    throw new Error("No fixes to undo");
+  }
+
+  const resolve = (file: JournalFile) => path.join(rootDir, file.path);
+
+  const conflicts = run.files
+    .filter((file) => {
+      const filePath = resolve(file);
+      return (
+        !fs.existsSync(filePath) ||
+        hashContent(fs.readFileSync(filePath, "utf8")) !== file.afterHash
+      );
+    })
+    .map((file) => file.path);
+
+  if (conflicts.length > 0 && !options.force) {
+    throw new UndoConflictError(conflicts);
+  }
+
+  const restored: string[] = [];
+  const deleted: string[] = [];
+
+  run.files.forEach((file) => {
+    if (file.before === null) {
+      fs.rmSync(resolve(file), { force: true });
+      deleted.push(file.path);
+    } else {
+      fs.writeFileSync(resolve(file), file.before);
+      restored.push(file.path);
+    }
+  });
+
+  writeJournal(rootDir, { ...journal, runs: journal.runs.slice(0, -1) });
+
+  return { restored, deleted };
+}
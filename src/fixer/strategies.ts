@@ -0,0 +1,110 @@
+/**
+ * Fix strategies - how a file reads an environment variable
+ * Strategies are matched by file extension, framework and whether the file
+ * is client code. Files no strategy handles need a manual fix, and so does
+ * client code: any variable it reads ends up in the browser bundle.
+ */
+
+import * as path from "path";
+import { Framework } from "../scanner/framework";
+
+export interface FixContext {
+  readonly filePath: string;
+  readonly framework: Framework;
+  /** The file is bundled for the browser */
+  readonly clientSide: boolean;
+}
+
+export interface FixStrategy {
+  readonly name: string;
+  /** Lowercase extensions including the dot */
+  readonly extensions: readonly string[];
+  /** Limit to these frameworks; any framework when omitted */
+  readonly frameworks?: readonly Framework[];
+  /** Limit to client (true) or server (false) code */
+  readonly clientSide?: boolean;
+  /** Expression that reads the variable */
+  reference(envName: string): string;
+  /** Import the reference needs, added when the file does not match present */
+  readonly requiredImport?: {
+    readonly statement: string;
+    readonly present: RegExp;
+  };
+}
+
+const JS_EXTENSIONS = [".js", ".ts", ".jsx", ".tsx", ".mjs", ".cjs"];
+const COMPONENT_EXTENSIONS = [".vue", ".svelte"];
+
+const MANUAL_FIX_REASONS: Readonly<Record<string, string>> = {
+  ".json": "JSON files cannot read environment variables",
+  ".yaml": "YAML files cannot read environment variables",
+  ".yml": "YAML files cannot read environment variables",
+  ".md": "replace the value in the docs with a placeholder",
+};
+
+const CLIENT_SIDE_REASON =
+  "client code ships its environment variables in the bundle; move the call that uses the secret to server code";
+
+export const BUILT_IN_FIX_STRATEGIES: readonly FixStrategy[] = [
+  {
+    name: "deno",
+    extensions: JS_EXTENSIONS,
+    frameworks: ["deno"],
+    reference: (envName) => `Deno.env.get("${envName}")`,
+  },
+  {
+    name: "node",
+    extensions: [...JS_EXTENSIONS, ...COMPONENT_EXTENSIONS],
+    clientSide: false,
+    reference: (envName) => `process.env.${envName}`,
+  },
+  {
+    name: "python",
+    extensions: [".py"],
+    reference: (envName) => `os.environ["${envName}"]`,
+    requiredImport: {
+      statement: "import os",
+      present: /^import\s+(?:[\w.]+\s*,\s*)*os\b/m,
+    },
+  },
+];
+
+// Checked first to last; registered strategies go in front
+const strategies: FixStrategy[] = [...BUILT_IN_FIX_STRATEGIES];
+
+/**
+ * Register a strategy; it takes precedence over earlier ones
+ */
+export function registerFixStrategy(strategy: FixStrategy): void {
+  strategies.unshift(strategy);
+}
+
+/**
+ * First strategy that handles the file, or null when it needs a manual fix
+ */
+export function resolveFixStrategy(context: FixContext): FixStrategy | null {
+  const extension = path.extname(context.filePath).toLowerCase();
+
+  return (
+    strategies.find(
+      (strategy) =>
+        strategy.extensions.includes(extension) &&
+        (!strategy.frameworks ||
+          strategy.frameworks.includes(context.framework)) &&
+        (strategy.clientSide === undefined ||
+          strategy.clientSide === context.clientSide),
+    ) ?? null
+  );
+}
+
+/**
+ * Why a file without a strategy cannot be fixed automatically
+ */
+export function manualFixReason(context: FixContext): string {
+  const extension = path.extname(context.filePath).toLowerCase();
+  const reason = context.clientSide
+    ? CLIENT_SIDE_REASON
+    : (MANUAL_FIX_REASONS[extension] ??
+      `no fix strategy for ${extension || "files without an extension"}`);
+  return `manual fix required: ${reason}`;
+}
@@ -0,0 +1,114 @@
+/**
+ * Lines changed relative to a base ref, so PR checks report only the
+ * findings a branch introduces
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Finding } from "../scanner/types";
+import {
+  checkRevision,
+  getRepoRoot,
+  parseDiffTarget,
+  runGit,
+  splitNul,
+} from "./git";
+
+/**
+ * Added or modified line numbers by absolute file path; "all" for files
+ * git does not track yet
+ */
+export type ChangedLines = ReadonlyMap<string, ReadonlySet<number> | "all">;
+
+/**
+ * Parse `git diff --unified=0` output into the new-side line numbers of
+ * each file, keyed by path relative to the repository root
+ */
+export function parseChangedLines(diff: string): Map<string, Set<number>> {
+  const changed = new Map<string, Set<number>>();
+  let lines: Set<number> | null = null;
+
+  diff.split("\n").forEach((line) => {
+    if (line.startsWith("diff --git ")) {
+      lines = null;
+      return;
+    }
+
+    if (line.startsWith("+++ ")) {
+      const target = parseDiffTarget(line);
+      // Deleted files have no new side
+      lines = null;
+      if (target !== null) {
+        lines = new Set();
+        changed.set(target, lines);
+      }
+      return;
+    }
+
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (hunk && lines) {
+      const start = parseInt(hunk[1], 10);
+      const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+      for (let i = 0; i < count; i++) {
+        lines.add(start + i);
+      }
+    }
+  });
+
+  return changed;
+}
+
+/**
+ * Lines the working tree adds or modifies since the merge base of ref and
+ * HEAD, including uncommitted changes and untracked files. Paths are
+ * spelled under dir, which may be reached through a symlink.
+ */
+export function getChangedLines(ref: string, dir: string): ChangedLines {
+  checkRevision(ref, "--diff");
+  const repoRoot = getRepoRoot(dir);
+  const root = path.resolve(dir, path.relative(fs.realpathSync(dir), repoRoot));
+  const base = runGit(["merge-base", ref, "HEAD"], repoRoot).trim();
+  const diff = runGit(
+    [
+      "-c",
+      "core.quotePath=false",
+      "diff",
+      "--no-color",
+      "--no-ext-diff",
+      "--no-textconv",
+      // Override diff.noprefix and diff.mnemonicPrefix, which the parser
+      // would not understand
+      "--src-prefix=a/",
+      "--dst-prefix=b/",
+      "--find-renames",
+      "--unified=0",
+      base,
+    ],
+    repoRoot,
+  );
+
+  const changed = new Map<string, ReadonlySet<number> | "all">();
+  parseChangedLines(diff).forEach((lines, relativePath) =>
+    changed.set(path.join(root, relativePath), lines),
+  );
+  splitNul(
+    runGit(["ls-files", "--others", "--exclude-standard", "-z"], repoRoot),
+  ).forEach((relativePath) =>
+    changed.set(path.join(root, relativePath), "all"),
+  );
+
+  return changed;
+}
+
+/**
+ * Keep the findings on changed lines
+ */
+export function filterChangedLines<T extends Finding>(
+  findings: readonly T[],
+  changed: ChangedLines,
+): T[] {
+  return findings.filter((finding) => {
+    const lines = changed.get(path.resolve(finding.filePath));
+    return lines === "all" || (lines?.has(finding.lineNumber) ?? false);
+  });
+}
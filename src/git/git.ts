@@ -0,0 +1,108 @@
+/**
+ * Thin wrapper around the local git binary
+ */
+
+import { execFileSync } from "child_process";
+
+/**
+ * Thrown when a git command fails or git is not available
+ */
+export class GitError extends Error {
+  constructor(
+    message: string,
+    readonly args: readonly string[],
+  ) {
+    super(message);
+    this.name = "GitError";
+  }
+}
+
+/**
+ * Run git and return stdout
+ */
+export function runGit(args: readonly string[], cwd: string): string {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      env: process.env,
+      encoding: "utf8",
+      maxBuffer: 256 * 1024 * 1024,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+  } catch (error) {
+    const stderr =
+      error && typeof error === "object" && "stderr" in error
+        ? String((error as { stderr: unknown }).stderr).trim()
+        : "";
+    throw new GitError(stderr || `git ${args[0]} failed`, args);
+  }
+}
+
+/**
+ * Reject a revision git would read as an option, e.g. "--output=x"
+ */
+export function checkRevision(revision: string, flag: string): void {
+  if (revision.startsWith("-")) {
+    throw new GitError(`${flag} must be a git revision, not "${revision}"`, [
+      revision,
+    ]);
+  }
+}
+
+/**
+ * Absolute path of the repository containing cwd
+ */
+export function getRepoRoot(cwd: string): string {
+  return runGit(["rev-parse", "--show-toplevel"], cwd).trim();
+}
+
+/**
+ * Split NUL-separated git output (from -z flags)
+ */
+export function splitNul(output: string): string[] {
+  return output.split("\0").filter((entry) => entry.length > 0);
+}
+
+/**
+ * Undo git's C-style quoting of a path, e.g. "tab\there" or "caf\303\251";
+ * octal escapes are UTF-8 bytes
+ */
+function unquotePath(quoted: string): string {
+  const escapes: Readonly<Record<string, number>> = {
+    a: 7,
+    b: 8,
+    t: 9,
+    n: 10,
+    v: 11,
+    f: 12,
+    r: 13,
+  };
+  const bytes: Buffer[] = [];
+
+  for (const [, octal, escaped, text] of quoted
+    .slice(1, -1)
+    .matchAll(/\\([0-7]{3})|\\(.)|([^\\]+)/g)) {
+    if (octal) {
+      bytes.push(Buffer.from([parseInt(octal, 8)]));
+    } else if (escaped) {
+      bytes.push(Buffer.from([escapes[escaped] ?? escaped.charCodeAt(0)]));
+    } else {
+      bytes.push(Buffer.from(text, "utf8"));
+    }
+  }
+
+  return Buffer.concat(bytes).toString("utf8");
+}
+
+/**
+ * New-side path of a "+++ " diff header line, relative to the repository
+ * root, or null for deleted files. Expects --dst-prefix=b/. Git ends paths
+ * with spaces with a TAB and quotes paths with special characters.
+ */
+export function parseDiffTarget(line: string): string | null {
+  let target = line.slice(4).replace(/\t$/, "");
+  if (target.startsWith('"') && target.endsWith('"')) {
+    target = unquotePath(target);
+  }
+  return target.startsWith("b/") ? target.slice(2) : null;
+}
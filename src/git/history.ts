@@ -0,0 +1,169 @@
+/**
+ * History scanner - finds secrets in lines added by past commits,
+ * including ones that were later removed from the working tree
+ */
+
+import * as path from "path";
+import {
+  fileScanOptions,
+  isExcludedPath,
+  isScannablePath,
+  scanContent,
+} from "../scanner/detector";
+import { Finding, ScanOptions } from "../scanner/types";
+import { checkRevision, getRepoRoot, parseDiffTarget, runGit } from "./git";
+
+export interface HistoryFinding extends Finding {
+  /** Commit that first added the secret */
+  readonly commit: string;
+  readonly author: string;
+  readonly date: string;
+  /** Every commit that added the same secret, oldest first */
+  readonly commits: readonly string[];
+}
+
+export interface HistoryScanOptions extends ScanOptions {
+  /** Revision range passed to git log, e.g. "v1.0..HEAD" */
+  readonly range?: string;
+  /** Only scan commits after this ref */
+  readonly since?: string;
+  /** Scan commits reachable from any ref, not just HEAD */
+  readonly all?: boolean;
+}
+
+interface CommitInfo {
+  readonly sha: string;
+  readonly author: string;
+  readonly date: string;
+}
+
+// Separates commit headers from patch text in git log output
+const COMMIT_MARKER = "\u0000vibecurb-commit\u0000";
+
+function buildLogArgs(options: HistoryScanOptions): string[] {
+  const args = [
+    "-c",
+    "core.quotePath=false",
+    "log",
+    "-p",
+    "--reverse",
+    "--no-color",
+    "--no-ext-diff",
+    "--no-textconv",
+    // Override diff.noprefix and diff.mnemonicPrefix; paths are read from
+    // the "+++ b/" lines
+    "--src-prefix=a/",
+    "--dst-prefix=b/",
+    "--unified=0",
+    `--format=${COMMIT_MARKER.replace(/\u0000/g, "%x00")}%H%x00%an <%ae>%x00%aI`,
+  ];
+
+  if (options.all) {
+    args.push("--all");
+  } else if (options.range) {
+    checkRevision(options.range, "--range");
+    args.push(options.range);
+  } else if (options.since) {
+    checkRevision(options.since, "--since");
+    args.push(`${options.since}..HEAD`);
+  }
+
+  return args;
+}
+
+/**
+ * Scan added lines in every commit of the selected history
+ */
+export function scanHistory(options: HistoryScanOptions): HistoryFinding[] {
+  const repoRoot = getRepoRoot(options.path);
+  const output = runGit(buildLogArgs(options), repoRoot);
+  const seen = new Map<string, HistoryFinding>();
+  const commitsByKey = new Map<string, string[]>();
+
+  // Scan everything outside excluded directories unless extensions are
+  // given, so committed .env files are caught too
+  const restrictExtensions = Boolean(
+    options.extensions || options.config?.extensions,
+  );
+
+  function shouldScan(relativePath: string): boolean {
+    return restrictExtensions
+      ? isScannablePath(relativePath, options)
+      : !isExcludedPath(relativePath, options);
+  }
+
+  function record(commit: CommitInfo, finding: Finding): void {
+    const key = `${finding.pattern}\u0000${finding.match}`;
+    const commits = commitsByKey.get(key) ?? [];
+
+    if (!commits.includes(commit.sha)) {
+      commits.push(commit.sha);
+    }
+    commitsByKey.set(key, commits);
+
+    if (!seen.has(key)) {
+      seen.set(key, {
+        ...finding,
+        commit: commit.sha,
+        author: commit.author,
+        date: commit.date,
+        commits,
+      });
+    }
+  }
+
+  output
+    .split(COMMIT_MARKER)
+    .filter((chunk) => chunk.length > 0)
+    .forEach((chunk) => {
+      const headerEnd = chunk.indexOf("\n");
+      const [sha, author, date] = chunk
+        .slice(0, headerEnd === -1 ? chunk.length : headerEnd)
+        .split("\u0000");
+      const commit: CommitInfo = { sha, author, date };
+
+      let currentFile: string | null = null;
+      let inHeader = false;
+      let lineNumber = 0;
+
+      chunk
+        .slice(headerEnd + 1)
+        .split("\n")
+        .forEach((line) => {
+          if (line.startsWith("diff --git ")) {
+            inHeader = true;
+            currentFile = null;
+            return;
+          }
+
+          if (inHeader && line.startsWith("+++ ")) {
+            currentFile = parseDiffTarget(line);
+            if (currentFile && !shouldScan(currentFile)) {
+              currentFile = null;
+            }
+            return;
+          }
+
+          const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+          if (hunk) {
+            inHeader = false;
+            lineNumber = parseInt(hunk[1], 10);
+            return;
+          }
+
+          if (inHeader || !currentFile || !line.startsWith("+")) {
+            return;
+          }
+
+          const filePath = currentFile;
+          scanContent(
+            line.slice(1),
+            filePath,
+            fileScanOptions(options, path.join(repoRoot, filePath)),
+          ).forEach((finding) => record(commit, { ...finding, lineNumber }));
+          lineNumber++;
+        });
+    });
+
+  return Array.from(seen.values());
+}
@@ -0,0 +1,104 @@
+/**
+ * Pre-commit hook installer
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { runGit } from "./git";
+
+const HOOK_MARKER = "# vibecurb-pre-commit";
+
+const HOOK_SCRIPT = `#!/bin/sh
+${HOOK_MARKER}
+# Installed by "vibecurb hook install". Blocks the commit when staged
+# content contains errors. Remove with "vibecurb hook uninstall".
+
+if command -v vibecurb >/dev/null 2>&1; then
+  exec vibecurb scan --staged
+fi
+
+exec npx --no-install vibecurb scan --staged
+`;
+
+export interface HookResult {
+  readonly hookPath: string;
+  readonly changed: boolean;
+  readonly message: string;
+}
+
+/**
+ * Thrown when an existing hook was not written by vibecurb
+ */
+export class HookConflictError extends Error {
+  constructor(readonly hookPath: string) {
+    super(
+      `${hookPath} already exists and was not installed by vibecurb (use --force to replace it)`,
+    );
+    this.name = "HookConflictError";
+  }
+}
+
+/**
+ * Path of the pre-commit hook, honoring core.hooksPath
+ */
+export function getHookPath(cwd: string): string {
+  const hooksDir = runGit(["rev-parse", "--git-path", "hooks"], cwd).trim();
+  return path.resolve(cwd, hooksDir, "pre-commit");
+}
+
+function isVibecurbHook(hookPath: string): boolean {
+  return fs.readFileSync(hookPath, "utf8").includes(HOOK_MARKER);
+}
+
+/**
+ * Install the pre-commit hook
+ */
+export function installHook(
+  cwd: string,
+  options: { force?: boolean } = {},
+): HookResult {
+  const hookPath = getHookPath(cwd);
+
+  if (fs.existsSync(hookPath) && !isVibecurbHook(hookPath) && !options.force) {
+    throw new HookConflictError(hookPath);
+  }
+
+  if (
+    fs.existsSync(hookPath) &&
+    fs.readFileSync(hookPath, "utf8") === HOOK_SCRIPT
+  ) {
+    return { hookPath, changed: false, message: "Hook already installed" };
+  }
+
+  fs.mkdirSync(path.dirname(hookPath), { recursive: true });
+  fs.writeFileSync(hookPath, HOOK_SCRIPT, { mode: 0o755 });
+  fs.chmodSync(hookPath, 0o755);
+
+  return { hookPath, changed: true, message: "Pre-commit hook installed" };
+}
+
+/**
+ * Remove the pre-commit hook if vibecurb installed it
+ */
+export function uninstallHook(cwd: string): HookResult {
+  const hookPath = getHookPath(cwd);
+
+  if (!fs.existsSync(hookPath)) {
+    return {
+      hookPath,
+      changed: false,
+      message: "No pre-commit hook installed",
+    };
+  }
+
+  if (!isVibecurbHook(hookPath)) {
+    return {
+      hookPath,
+      changed: false,
+      message: "Existing pre-commit hook was not installed by vibecurb",
+    };
+  }
+
+  fs.unlinkSync(hookPath);
+  return { hookPath, changed: true, message: "Pre-commit hook removed" };
+}
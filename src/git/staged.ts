@@ -0,0 +1,72 @@
+/**
+ * Staged content scanner - reads blobs from the git index instead of disk
+ */
+
+import * as path from "path";
+import {
+  fileScanOptions,
+  isScannablePath,
+  scanProjectContent,
+} from "../scanner/detector";
+import { ScanOptions, ScanResult } from "../scanner/types";
+import { getRepoRoot, runGit, splitNul } from "./git";
+
+/**
+ * Paths (relative to the repo root) of files added, copied, modified or
+ * renamed in the index
+ */
+export function listStagedFiles(repoRoot: string): string[] {
+  return splitNul(
+    runGit(
+      ["diff", "--cached", "--name-only", "--diff-filter=ACMR", "-z"],
+      repoRoot,
+    ),
+  );
+}
+
+/**
+ * Read a file's staged blob from the index
+ */
+export function readStagedFile(repoRoot: string, relativePath: string): string {
+  return runGit(["cat-file", "blob", `:${relativePath}`], repoRoot);
+}
+
+/**
+ * Scan staged content. Line numbers refer to the staged version of each
+ * file, which may differ from the working tree for partially staged files.
+ */
+export function scanStaged(options: ScanOptions): ScanResult[] {
+  const repoRoot = getRepoRoot(options.path);
+  const scope = path.resolve(options.path);
+  const results: ScanResult[] = [];
+
+  listStagedFiles(repoRoot)
+    .filter((relativePath) => {
+      const filePath = path.join(repoRoot, relativePath);
+      return (
+        (filePath === scope || filePath.startsWith(scope + path.sep)) &&
+        isScannablePath(relativePath, options)
+      );
+    })
+    .forEach((relativePath) => {
+      const filePath = path.join(repoRoot, relativePath);
+      const content = readStagedFile(repoRoot, relativePath);
+
+      // Skip binary blobs
+      if (content.includes("\0")) {
+        return;
+      }
+
+      const findings = scanProjectContent(
+        content,
+        filePath,
+        fileScanOptions(options, filePath),
+      );
+
+      if (findings.length > 0) {
+        results.push({ filePath, findings });
+      }
+    });
+
+  return results;
+}
@@ -0,0 +1,140 @@
+/**
+ * Project setup for `vibecurb init`: rc file, AI instruction files,
+ * .gitignore entries and the pre-commit hook
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  CONFIG_FILE_NAME,
+  findConfigFile,
+  loadConfig,
+  resolveConfig,
+} from "../config/loader";
+import { GITIGNORE_ENTRIES } from "../fixer/auto-fix";
+import { getRepoRoot, GitError } from "../git/git";
+import { installHook } from "../git/hook";
+import {
+  ASSISTANTS,
+  detectAssistants,
+  mergeInstructions,
+  renderInstructions,
+} from "./instructions";
+
+export interface InitStep {
+  readonly id: "config" | "instructions" | "gitignore" | "hook";
+  /** What the step will do, asked as a question in interactive runs */
+  readonly description: string;
+  /** Perform the step and describe what changed */
+  run(): string;
+}
+
+const DEFAULT_CONFIG = {
+  severity: "all",
+  rules: {},
+};
+
+function isGitRepo(rootDir: string): boolean {
+  try {
+    getRepoRoot(rootDir);
+    return true;
+  } catch (error) {
+    if (error instanceof GitError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * The steps init would take in a project; steps with nothing to do are
+ * left out. assistants are ids from ASSISTANTS; by default the ones
+ * detected in the project.
+ */
+export function planInit(
+  rootDir: string,
+  options: { assistants?: readonly string[] } = {},
+): InitStep[] {
+  const steps: InitStep[] = [];
+
+  const unknown = (options.assistants ?? []).filter(
+    (id) => !ASSISTANTS.some((a) => a.id === id),
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown assistant "${unknown[0]}" (expected ${ASSISTANTS.map((a) => a.id).join(", ")})`,
+    );
+  }
+  const assistants = options.assistants
+    ? ASSISTANTS.filter((a) => options.assistants?.includes(a.id))
+    : detectAssistants(rootDir);
+
+  if (!findConfigFile(rootDir)) {
+    const configPath = path.join(rootDir, CONFIG_FILE_NAME);
+    steps.push({
+      id: "config",
+      description: `Create ${CONFIG_FILE_NAME}`,
+      run() {
+        fs.writeFileSync(
+          configPath,
+          `${JSON.stringify(DEFAULT_CONFIG, null, 2)}\n`,
+        );
+        return `Created ${CONFIG_FILE_NAME}`;
+      },
+    });
+  }
+
+  if (assistants.length > 0) {
+    steps.push({
+      id: "instructions",
+      description: `Write AI instructions for ${assistants.map((a) => a.name).join(", ")}`,
+      run() {
+        // Rendered now, so a config created by an earlier step is used
+        const instructions = renderInstructions(
+          resolveConfig(loadConfig(rootDir), {}, rootDir),
+        );
+        const written = assistants.map(({ file }) => {
+          const filePath = path.join(rootDir, file);
+          const existing = fs.existsSync(filePath)
+            ? fs.readFileSync(filePath, "utf8")
+            : null;
+          fs.mkdirSync(path.dirname(filePath), { recursive: true });
+          fs.writeFileSync(filePath, mergeInstructions(existing, instructions));
+          return file;
+        });
+        return `Wrote ${written.join(", ")}`;
+      },
+    });
+  }
+
+  const gitignorePath = path.join(rootDir, ".gitignore");
+  const gitignore = fs.existsSync(gitignorePath)
+    ? fs.readFileSync(gitignorePath, "utf8")
+    : "";
+  const ignored = gitignore.split("\n").map((line) => line.trim());
+  const missing = GITIGNORE_ENTRIES.filter((entry) => !ignored.includes(entry));
+  if (missing.length > 0) {
+    steps.push({
+      id: "gitignore",
+      description: `Add ${missing.join(", ")} to .gitignore`,
+      run() {
+        const separator = gitignore && !gitignore.endsWith("\n") ? "\n" : "";
+        fs.writeFileSync(
+          gitignorePath,
+          `${gitignore}${separator}${missing.join("\n")}\n`,
+        );
+        return `Added ${missing.length} entr${missing.length === 1 ? "y" : "ies"} to .gitignore`;
+      },
+    });
+  }
+
+  if (isGitRepo(rootDir)) {
+    steps.push({
+      id: "hook",
+      description: "Install a pre-commit hook that scans staged changes",
+      run: () => installHook(rootDir).message,
+    });
+  }
+
+  return steps;
+}
@@ -0,0 +1,196 @@
+/**
+ * AI assistant instruction files
+ * Every assistant gets the same instructions, rendered from the active rule
+ * set and the project's config. They are written between markers, so a
+ * file the user also edits keeps the rest of its content.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ResolvedConfig } from "../config/types";
+import { resolveFixStrategy } from "../fixer/strategies";
+import { getRuleCatalog, RuleInfo } from "../scanner/catalog";
+import { detectProject, PUBLIC_ENV_PREFIXES } from "../scanner/framework";
+
+export interface Assistant {
+  readonly id: string;
+  readonly name: string;
+  /** Instruction file, relative to the project */
+  readonly file: string;
+  /** Files or directories that show the assistant is in use */
+  readonly markers: readonly string[];
+}
+
+export const ASSISTANTS: readonly Assistant[] = [
+  {
+    id: "cursor",
+    name: "Cursor",
+    file: ".cursorrules",
+    markers: [".cursorrules", ".cursor"],
+  },
+  {
+    id: "copilot",
+    name: "GitHub Copilot",
+    file: ".github/copilot-instructions.md",
+    markers: [".github/copilot-instructions.md", ".github/instructions"],
+  },
+  {
+    id: "windsurf",
+    name: "Windsurf",
+    file: ".windsurfrules",
+    markers: [".windsurfrules", ".windsurf"],
+  },
+  {
+    id: "claude",
+    name: "Claude",
+    file: "CLAUDE.md",
+    markers: ["CLAUDE.md", ".claude"],
+  },
+  {
+    id: "agents",
+    name: "Any assistant",
+    file: "AI_INSTRUCTIONS.md",
+    // Written for every project, for assistants without their own file
+    markers: [],
+  },
+];
+
+const SECTION_START = "<!-- vibecurb:start -->";
+const SECTION_END = "<!-- vibecurb:end -->";
+
+const KIND_TITLES: Readonly<Record<RuleInfo["kind"], string>> = {
+  secrets: "Secrets (`vibecurb scan`)",
+  network: "Network security (`vibecurb scan-network`)",
+  env: "Env files (`vibecurb env-check`)",
+};
+
+const code = (text: string) => `\`${text}\``;
+const sentence = (text: string) => (/[.!?]$/.test(text) ? text : `${text}.`);
+
+/**
+ * Assistants whose files are in the project, plus the generic file
+ */
+export function detectAssistants(rootDir: string): Assistant[] {
+  return ASSISTANTS.filter(
+    (assistant) =>
+      assistant.markers.length === 0 ||
+      assistant.markers.some((marker) =>
+        fs.existsSync(path.join(rootDir, marker)),
+      ),
+  );
+}
+
+/**
+ * Render the instructions from the rules the config leaves on
+ */
+export function renderInstructions(config: ResolvedConfig): string {
+  const project = detectProject(
+    path.join(config.rootDir, "index.ts"),
+    config.rootDir,
+  );
+  const reference =
+    resolveFixStrategy({
+      filePath: path.join(config.rootDir, "index.ts"),
+      framework: project.framework,
+      clientSide: false,
+    })?.reference("API_KEY") ?? "process.env.API_KEY";
+  const publicPrefix = PUBLIC_ENV_PREFIXES[project.framework];
+  const rules = getRuleCatalog(config).filter(
+    (rule) => rule.severity !== "off",
+  );
+
+  const lines = [
+    "# Security Instructions (vibecurb)",
+    "",
+    "This project is checked by vibecurb. Code you write must pass `vibecurb scan` and `vibecurb scan-network`.",
+    "",
+    "## Always",
+    "",
+    `- Read secrets from environment variables, e.g. \`${reference}\`. Never hardcode API keys, tokens, passwords or connection strings, not even in tests or examples.`,
+    "- Add every new variable to `.env.example` with a placeholder value, and keep `.env` files out of git.",
+    publicPrefix
+      ? `- Variables starting with \`${publicPrefix}\` are bundled into client code. Never give a secret that prefix.`
+      : "- Never read secrets in code that runs in the browser.",
+    "- Never log request bodies, headers, tokens, passwords or whole user objects.",
+    "- Never return passwords, tokens or internal errors in API responses.",
+    "- Handle the errors of every `fetch` and `axios` call.",
+    "",
+    "## Rules",
+    "",
+  ];
+
+  (Object.keys(KIND_TITLES) as RuleInfo["kind"][]).forEach((kind) => {
+    const kindRules = rules.filter((rule) => rule.kind === kind);
+    if (kindRules.length === 0) {
+      return;
+    }
+    lines.push(`### ${KIND_TITLES[kind]}`, "");
+    kindRules.forEach((rule) =>
+      lines.push(
+        `- \`${rule.id}\` (${rule.severity}): ${sentence(rule.message)} ${sentence(rule.fixSuggestion)}`,
+      ),
+    );
+    lines.push("");
+  });
+
+  if (config.configPath) {
+    lines.push(
+      "## Project Config",
+      "",
+      `Settings come from \`${path.relative(config.rootDir, config.configPath)}\`:`,
+      "",
+      `- Reported severity: ${config.severity}`,
+    );
+    if (config.exclude) {
+      lines.push(`- Not scanned: ${config.exclude.map(code).join(", ")}`);
+    }
+    if (config.overrides.length > 0) {
+      lines.push(
+        `- Other rule settings for: ${config.overrides
+          .flatMap((o) => o.files)
+          .map(code)
+          .join(", ")}`,
+      );
+    }
+    lines.push("");
+  }
+
+  lines.push(
+    "## Suppressing Findings",
+    "",
+    "Only for confirmed false positives, with a reason:",
+    "",
+    "```",
+    "// vibecurb-ignore-next-line <rule-id> -- reason",
+    "```",
+  );
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Put the instructions between the markers in a file's content, replacing
+ * an earlier version and keeping everything else
+ */
+export function mergeInstructions(
+  existing: string | null,
+  instructions: string,
+): string {
+  const section = `${SECTION_START}\n${instructions}${SECTION_END}\n`;
+  if (!existing) {
+    return section;
+  }
+
+  const start = existing.indexOf(SECTION_START);
+  const end = existing.indexOf(SECTION_END);
+  if (start !== -1 && end > start) {
+    return (
+      existing.slice(0, start) +
+      section +
+      existing.slice(end + SECTION_END.length).replace(/^\n/, "")
+    );
+  }
+
+  const separator = existing.endsWith("\n") ? "\n" : "\n\n";
+  return `${existing}${separator}${section}`;
+}
@@ -0,0 +1,149 @@
+/**
+ * JSON-RPC framing and the parts of the Language Server Protocol the server
+ * uses. Messages are JSON bodies preceded by a Content-Length header.
+ */
+
+import { Readable, Writable } from "stream";
+import { Message } from "../utils/json-rpc";
+
+export interface Position {
+  /** 0-based */
+  readonly line: number;
+  /** 0-based, in UTF-16 code units */
+  readonly character: number;
+}
+
+export interface Range {
+  readonly start: Position;
+  readonly end: Position;
+}
+
+export interface TextDocumentIdentifier {
+  readonly uri: string;
+}
+
+export interface InitializeParams {
+  readonly rootUri?: string | null;
+  readonly rootPath?: string | null;
+}
+
+export interface DidOpenTextDocumentParams {
+  readonly textDocument: TextDocumentIdentifier & {
+    readonly version: number;
+    readonly text: string;
+  };
+}
+
+export interface DidChangeTextDocumentParams {
+  readonly textDocument: TextDocumentIdentifier & { readonly version: number };
+  /** With full sync, each change holds the whole text */
+  readonly contentChanges: readonly { readonly text: string }[];
+}
+
+export interface DidCloseTextDocumentParams {
+  readonly textDocument: TextDocumentIdentifier;
+}
+
+export interface CodeActionParams {
+  readonly textDocument: TextDocumentIdentifier;
+  readonly range: Range;
+}
+
+export const DIAGNOSTIC_SEVERITY = { Error: 1, Warning: 2 } as const;
+
+export interface Diagnostic {
+  readonly range: Range;
+  readonly severity: number;
+  readonly code: string;
+  readonly source: string;
+  readonly message: string;
+}
+
+export interface TextEdit {
+  readonly range: Range;
+  readonly newText: string;
+}
+
+export interface TextDocumentEdit {
+  readonly textDocument: {
+    readonly uri: string;
+    readonly version: number | null;
+  };
+  readonly edits: readonly TextEdit[];
+}
+
+export interface CreateFile {
+  readonly kind: "create";
+  readonly uri: string;
+  readonly options?: { readonly ignoreIfExists?: boolean };
+}
+
+export interface WorkspaceEdit {
+  readonly documentChanges: readonly (TextDocumentEdit | CreateFile)[];
+}
+
+export interface CodeAction {
+  readonly title: string;
+  readonly kind: "quickfix";
+  readonly diagnostics: readonly Diagnostic[];
+  readonly isPreferred?: boolean;
+  readonly edit: WorkspaceEdit;
+}
+
+const HEADER_SEPARATOR = "\r\n\r\n";
+const CONTENT_LENGTH_REGEX = /^Content-Length:\s*(\d+)\s*$/im;
+
+/**
+ * Call onMessage for every framed message read from input. Bodies that are
+ * not valid JSON are passed to onError and skipped.
+ */
+export function readMessages(
+  input: Readable,
+  onMessage: (message: Message) => void,
+  onError: (error: Error) => void,
+): void {
+  let buffer = Buffer.alloc(0);
+
+  input.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    for (;;) {
+      const headerEnd = buffer.indexOf(HEADER_SEPARATOR);
+      if (headerEnd === -1) {
+        return;
+      }
+
+      const header = buffer.subarray(0, headerEnd).toString("ascii");
+      const length = CONTENT_LENGTH_REGEX.exec(header);
+      const bodyStart = headerEnd + HEADER_SEPARATOR.length;
+      if (!length) {
+        buffer = buffer.subarray(bodyStart);
+        onError(new Error("Message without a Content-Length header"));
+        continue;
+      }
+
+      const bodyEnd = bodyStart + Number(length[1]);
+      if (buffer.length < bodyEnd) {
+        return;
+      }
+
+      const body = buffer.subarray(bodyStart, bodyEnd).toString("utf8");
+      buffer = buffer.subarray(bodyEnd);
+      let message: Message;
+      try {
+        message = JSON.parse(body);
+      } catch (error) {
+        onError(error as Error);
+        continue;
+      }
+      onMessage(message);
+    }
+  });
+}
+
+export function writeMessage(output: Writable, message: Message): void {
+  const body = JSON.stringify(message);
+  output.write(
+    `Content-Length: ${Buffer.byteLength(body, "utf8")}${HEADER_SEPARATOR}${body}`,
+  );
+}
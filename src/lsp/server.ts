@@ -0,0 +1,437 @@
+/**
+ * Language server - publishes secret and network findings as diagnostics
+ * for open documents, scanning the editor's text rather than the file on
+ * disk, and offers quick fixes for them
+ */
+
+import * as path from "path";
+import { Readable, Writable } from "stream";
+import { fileURLToPath, pathToFileURL } from "url";
+import { loadConfig, resolveConfig } from "../config/loader";
+import { ResolvedConfig } from "../config/types";
+import { planFixes } from "../fixer/auto-fix";
+import { filterBaseline, loadBaseline } from "../scanner/baseline";
+import {
+  fileScanOptions,
+  isExcludedPath,
+  isScannablePath,
+  scanProjectContent,
+} from "../scanner/detector";
+import {
+  NETWORK_EXTENSIONS,
+  scanNetworkContent,
+} from "../scanner/network-detector";
+import { toRuleId } from "../scanner/rules";
+import { Finding } from "../scanner/types";
+import { VERSION } from "../version";
+import {
+  CodeAction,
+  CodeActionParams,
+  Diagnostic,
+  DIAGNOSTIC_SEVERITY,
+  DidChangeTextDocumentParams,
+  DidCloseTextDocumentParams,
+  DidOpenTextDocumentParams,
+  InitializeParams,
+  Position,
+  Range,
+  readMessages,
+  TextEdit,
+  WorkspaceEdit,
+  writeMessage,
+} from "./protocol";
+import { ERROR_CODES, Message, RequestError } from "../utils/json-rpc";
+
+export interface LanguageServerOptions {
+  /** Called on the exit notification; 0 when shutdown came first */
+  readonly onExit?: (code: number) => void;
+}
+
+interface OpenDocument {
+  readonly filePath: string;
+  readonly version: number;
+  readonly text: string;
+  /** Findings of the last scan of text */
+  readonly findings: readonly DocumentFinding[];
+}
+
+interface DocumentFinding {
+  readonly finding: Finding;
+  /** Secrets can be moved to .env; network findings cannot */
+  readonly secret: boolean;
+  readonly diagnostic: Diagnostic;
+  readonly rootDir: string;
+}
+
+const SOURCE = "vibecurb";
+// Full document text on every change
+const TEXT_DOCUMENT_SYNC_FULL = 1;
+const HASH_COMMENT_EXTENSIONS = [".py", ".rb", ".sh", ".yaml", ".yml"];
+const MARKUP_COMMENT_EXTENSIONS = [".html", ".md", ".xml"];
+// Files whose syntax has no comments
+const NO_COMMENT_EXTENSIONS = [".json"];
+
+function positionAt(text: string, offset: number): Position {
+  const before = text.slice(0, offset).split("\n");
+  return {
+    line: before.length - 1,
+    character: before[before.length - 1].length,
+  };
+}
+
+function toDiagnostic(finding: Finding): Diagnostic {
+  const line = finding.lineNumber - 1;
+  const character = finding.column - 1;
+  // Multi-line matches are underlined on their first line
+  const length = finding.match.split("\n")[0].length;
+
+  return {
+    range: {
+      start: { line, character },
+      end: { line, character: character + length },
+    },
+    severity:
+      finding.severity === "error"
+        ? DIAGNOSTIC_SEVERITY.Error
+        : DIAGNOSTIC_SEVERITY.Warning,
+    code: toRuleId(finding.pattern),
+    source: SOURCE,
+    message: `${finding.message}\n${finding.fixSuggestion}`,
+  };
+}
+
+/**
+ * Comment that suppresses a rule on the next line, in the file's syntax,
+ * or null for files without comments
+ */
+function ignoreComment(filePath: string, ruleId: string): string | null {
+  const extension = path.extname(filePath).toLowerCase();
+  const marker = `vibecurb-ignore-next-line ${ruleId}`;
+
+  if (NO_COMMENT_EXTENSIONS.includes(extension)) {
+    return null;
+  }
+  if (
+    HASH_COMMENT_EXTENSIONS.includes(extension) ||
+    path.basename(filePath).startsWith(".env")
+  ) {
+    return `# ${marker}`;
+  }
+  if (MARKUP_COMMENT_EXTENSIONS.includes(extension)) {
+    return `<!-- ${marker} -->`;
+  }
+  return `// ${marker}`;
+}
+
+function overlaps(a: Range, b: Range): boolean {
+  return a.start.line <= b.end.line && b.start.line <= a.end.line;
+}
+
+/**
+ * Start a language server on a pair of streams, usually stdin and stdout
+ */
+export function startLanguageServer(
+  input: Readable,
+  output: Writable,
+  options: LanguageServerOptions = {},
+): void {
+  const documents = new Map<string, OpenDocument>();
+  let workspaceRoot: string | null = null;
+  let initialized = false;
+  let shuttingDown = false;
+
+  const send = (message: Omit<Message, "jsonrpc">) =>
+    writeMessage(output, { jsonrpc: "2.0", ...message });
+  const notify = (method: string, params: unknown) => send({ method, params });
+  const log = (message: string) =>
+    // 1: error
+    notify("window/logMessage", { type: 1, message: `vibecurb: ${message}` });
+
+  function loadDocumentConfig(filePath: string): ResolvedConfig {
+    const inWorkspace =
+      workspaceRoot !== null &&
+      !path.relative(workspaceRoot, filePath).startsWith("..");
+    return resolveConfig(
+      loadConfig(filePath),
+      {},
+      inWorkspace && workspaceRoot ? workspaceRoot : path.dirname(filePath),
+    );
+  }
+
+  function scanDocument(filePath: string, text: string): DocumentFinding[] {
+    const config = loadDocumentConfig(filePath);
+    const relative = path.relative(config.rootDir, filePath);
+    const fileOptions = fileScanOptions({ config }, filePath);
+    const baseline = config.baselinePath && loadBaseline(config.baselinePath);
+    const accept = <T extends Finding>(findings: T[]): T[] =>
+      config.baselinePath && baseline
+        ? filterBaseline(findings, baseline, path.dirname(config.baselinePath))
+        : findings;
+    const toDocumentFinding = (secret: boolean) => (finding: Finding) => ({
+      finding,
+      secret,
+      diagnostic: toDiagnostic(finding),
+      rootDir: config.rootDir,
+    });
+
+    const secrets = isScannablePath(relative, { config })
+      ? accept(scanProjectContent(text, filePath, fileOptions))
+      : [];
+    const network =
+      NETWORK_EXTENSIONS.includes(path.extname(filePath).toLowerCase()) &&
+      !isExcludedPath(relative, { config })
+        ? accept(scanNetworkContent(text, filePath, fileOptions))
+        : [];
+
+    return [
+      ...secrets.map(toDocumentFinding(true)),
+      ...network.map(toDocumentFinding(false)),
+    ];
+  }
+
+  function update(uri: string, version: number, text: string): void {
+    let filePath: string;
+    try {
+      filePath = fileURLToPath(uri);
+    } catch {
+      // Untitled and virtual documents have no path to resolve config from
+      return;
+    }
+
+    let findings: DocumentFinding[] = [];
+    try {
+      findings = scanDocument(filePath, text);
+    } catch (error) {
+      log(error instanceof Error ? error.message : String(error));
+    }
+
+    documents.set(uri, { filePath, version, text, findings });
+    notify("textDocument/publishDiagnostics", {
+      uri,
+      version,
+      diagnostics: findings.map((f) => f.diagnostic),
+    });
+  }
+
+  /**
+   * Turn a fix plan into edits. The open documents are edited at their
+   * current version; .env, .env.example and .gitignore are replaced whole
+   * or created.
+   */
+  function extractToEnv(item: DocumentFinding): WorkspaceEdit | null {
+    const contents = new Map(
+      Array.from(documents.values(), (doc) => [doc.filePath, doc.text]),
+    );
+    const plan = planFixes(item.rootDir, [item.finding], { contents });
+    if (plan.skipped.length > 0 || plan.changes.length === 0) {
+      return null;
+    }
+
+    return {
+      documentChanges: plan.changes.flatMap((change) => {
+        const uri = pathToFileURL(change.filePath).href;
+        const open = Array.from(documents).find(
+          ([, doc]) => doc.filePath === change.filePath,
+        );
+        const textDocument = {
+          uri: open ? open[0] : uri,
+          version: open ? open[1].version : null,
+        };
+
+        if (change.before === null) {
+          const insert = {
+            range: {
+              start: { line: 0, character: 0 },
+              end: { line: 0, character: 0 },
+            },
+            newText: change.after,
+          };
+          return [
+            { kind: "create" as const, uri, options: { ignoreIfExists: true } },
+            { textDocument, edits: [insert] },
+          ];
+        }
+
+        const before = change.before;
+        const edits: TextEdit[] =
+          change.edits.length > 0
+            ? change.edits.map((edit) => ({
+                range: {
+                  start: positionAt(before, edit.start),
+                  end: positionAt(before, edit.end),
+                },
+                newText: edit.replacement,
+              }))
+            : [
+                {
+                  range: {
+                    start: { line: 0, character: 0 },
+                    end: positionAt(before, before.length),
+                  },
+                  newText: change.after,
+                },
+              ];
+        return [{ textDocument, edits }];
+      }),
+    };
+  }
+
+  function ignoreLine(
+    uri: string,
+    doc: OpenDocument,
+    item: DocumentFinding,
+  ): WorkspaceEdit | null {
+    const comment = ignoreComment(doc.filePath, item.diagnostic.code);
+    if (!comment) {
+      return null;
+    }
+
+    const line = item.diagnostic.range.start.line;
+    const indent = /^\s*/.exec(doc.text.split("\n")[line] ?? "")?.[0] ?? "";
+    const start = { line, character: 0 };
+    return {
+      documentChanges: [
+        {
+          textDocument: { uri, version: doc.version },
+          edits: [
+            { range: { start, end: start }, newText: `${indent}${comment}\n` },
+          ],
+        },
+      ],
+    };
+  }
+
+  function codeActions(uri: string, range: Range): CodeAction[] {
+    const doc = documents.get(uri);
+    if (!doc) {
+      return [];
+    }
+
+    return doc.findings
+      .filter((item) => overlaps(item.diagnostic.range, range))
+      .flatMap((item) => {
+        const actions: CodeAction[] = [];
+        const extract = item.secret ? extractToEnv(item) : null;
+        if (extract) {
+          actions.push({
+            title: "Extract secret to .env",
+            kind: "quickfix",
+            diagnostics: [item.diagnostic],
+            isPreferred: true,
+            edit: extract,
+          });
+        }
+        const ignore = ignoreLine(uri, doc, item);
+        if (ignore) {
+          actions.push({
+            title: `Ignore ${item.diagnostic.code} on this line`,
+            kind: "quickfix",
+            diagnostics: [item.diagnostic],
+            edit: ignore,
+          });
+        }
+        return actions;
+      });
+  }
+
+  function handle(method: string, params: unknown): unknown {
+    switch (method) {
+      case "initialize": {
+        const { rootUri, rootPath } = (params ?? {}) as InitializeParams;
+        workspaceRoot = rootUri ? fileURLToPath(rootUri) : (rootPath ?? null);
+        initialized = true;
+        return {
+          capabilities: {
+            textDocumentSync: {
+              openClose: true,
+              change: TEXT_DOCUMENT_SYNC_FULL,
+            },
+            codeActionProvider: { codeActionKinds: ["quickfix"] },
+          },
+          serverInfo: { name: SOURCE, version: VERSION },
+        };
+      }
+      case "shutdown":
+        shuttingDown = true;
+        return null;
+      case "textDocument/didOpen": {
+        const { textDocument } = params as DidOpenTextDocumentParams;
+        update(textDocument.uri, textDocument.version, textDocument.text);
+        return undefined;
+      }
+      case "textDocument/didChange": {
+        const { textDocument, contentChanges } =
+          params as DidChangeTextDocumentParams;
+        update(
+          textDocument.uri,
+          textDocument.version,
+          contentChanges[contentChanges.length - 1].text,
+        );
+        return undefined;
+      }
+      case "textDocument/didClose": {
+        const { uri } = (params as DidCloseTextDocumentParams).textDocument;
+        documents.delete(uri);
+        notify("textDocument/publishDiagnostics", { uri, diagnostics: [] });
+        return undefined;
+      }
+      case "textDocument/codeAction": {
+        const { textDocument, range } = params as CodeActionParams;
+        return codeActions(textDocument.uri, range);
+      }
+      case "exit":
+        options.onExit?.(shuttingDown ? 0 : 1);
+        return undefined;
+      default:
+        throw new RequestError(
+          ERROR_CODES.MethodNotFound,
+          `Unhandled method: ${method}`,
+        );
+    }
+  }
+
+  readMessages(
+    input,
+    (message) => {
+      const isRequest = message.id !== undefined && message.id !== null;
+      if (!message.method) {
+        // Responses to requests the server never sends
+        return;
+      }
+      if (!initialized && message.method !== "initialize" && isRequest) {
+        send({
+          id: message.id,
+          error: {
+            code: ERROR_CODES.ServerNotInitialized,
+            message: "Server not initialized",
+          },
+        });
+        return;
+      }
+
+      try {
+        const result = handle(message.method, message.params);
+        if (isRequest) {
+          send({ id: message.id, result: result ?? null });
+        }
+      } catch (error) {
+        const code =
+          error instanceof RequestError
+            ? error.code
+            : ERROR_CODES.InternalError;
+        const text = error instanceof Error ? error.message : String(error);
+        if (isRequest) {
+          send({ id: message.id, error: { code, message: text } });
+        } else if (code !== ERROR_CODES.MethodNotFound) {
+          // Unknown notifications, such as $/ or workspace events, are ignored
+          log(text);
+        }
+      }
+    },
+    (error) =>
+      send({
+        id: null,
+        error: { code: ERROR_CODES.ParseError, message: error.message },
+      }),
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Model Context Protocol server - lets coding agents call vibecurb tools.
+ * Messages are JSON-RPC, one per line.
+ */
+
+import * as readline from "readline";
+import { Readable, Writable } from "stream";
+import { VERSION } from "../version";
+import { ERROR_CODES, Message, RequestError } from "../utils/json-rpc";
+import { MCP_TOOLS, ToolContext } from "./tools";
+
+/** Newest first; the client's version is used when it is supported */
+const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+interface CallToolParams {
+  readonly name?: unknown;
+  readonly arguments?: unknown;
+}
+
+async function callTool(
+  params: CallToolParams,
+  context: ToolContext,
+): Promise<object> {
+  const tool = MCP_TOOLS.find((t) => t.name === params.name);
+  if (!tool) {
+    throw new RequestError(
+      ERROR_CODES.InvalidParams,
+      `Unknown tool: ${String(params.name)}`,
+    );
+  }
+
+  try {
+    const result = await tool.run(
+      (params.arguments ?? {}) as Record<string, unknown>,
+      context,
+    );
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+    };
+  } catch (error) {
+    if (error instanceof RequestError) {
+      throw error;
+    }
+    // Tool failures go back to the agent, which can often fix the call;
+    // config and rule pack errors are reported the same way
+    const message = error instanceof Error ? error.message : String(error);
+    return { content: [{ type: "text", text: message }], isError: true };
+  }
+}
+
+/**
+ * Start an MCP server on a pair of streams, usually stdin and stdout.
+ * Tool paths are relative to rootDir.
+ */
+export function startMcpServer(
+  input: Readable,
+  output: Writable,
+  context: ToolContext,
+): void {
+  const send = (message: Omit<Message, "jsonrpc">) =>
+    output.write(`${JSON.stringify({ jsonrpc: "2.0", ...message })}\n`);
+
+  async function handle(method: string, params: unknown): Promise<unknown> {
+    switch (method) {
+      case "initialize": {
+        const requested = (params as { protocolVersion?: string } | undefined)
+          ?.protocolVersion;
+        return {
+          protocolVersion:
+            requested && PROTOCOL_VERSIONS.includes(requested)
+              ? requested
+              : PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {} },
+          serverInfo: { name: "vibecurb", version: VERSION },
+        };
+      }
+      case "ping":
+        return {};
+      case "tools/list":
+        return {
+          tools: MCP_TOOLS.map(({ name, description, inputSchema }) => ({
+            name,
+            description,
+            inputSchema,
+          })),
+        };
+      case "tools/call":
+        return callTool((params ?? {}) as CallToolParams, context);
+      default:
+        throw new RequestError(
+          ERROR_CODES.MethodNotFound,
+          `Unhandled method: ${method}`,
+        );
+    }
+  }
+
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  lines.on("line", async (line) => {
+    if (line.trim() === "") {
+      return;
+    }
+
+    let message: Message;
+    try {
+      message = JSON.parse(line);
+    } catch (error) {
+      send({
+        id: null,
+        error: {
+          code: ERROR_CODES.ParseError,
+          message: (error as Error).message,
+        },
+      });
+      return;
+    }
+
+    const isRequest = message.id !== undefined && message.id !== null;
+    if (!message.method || !isRequest) {
+      // Notifications such as notifications/initialized need no answer
+      return;
+    }
+
+    try {
+      send({
+        id: message.id,
+        result: await handle(message.method, message.params),
+      });
+    } catch (error) {
+      send({
+        id: message.id,
+        error: {
+          code:
+            error instanceof RequestError
+              ? error.code
+              : ERROR_CODES.InternalError,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  });
+}
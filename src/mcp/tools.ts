@@ -0,0 +1,349 @@
+/**
+ * Tools the MCP server offers to coding agents. Results are plain JSON;
+ * matched text is redacted as in JSON reports, and fix patches are masked.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { loadConfig, resolveConfig } from "../config/loader";
+import { ResolvedConfig } from "../config/types";
+import { previewFixes } from "../fixer/auto-fix";
+import { getRuleCatalog } from "../scanner/catalog";
+import {
+  fileScanOptions,
+  scanContent,
+  scanDirectory,
+} from "../scanner/detector";
+import {
+  NETWORK_EXTENSIONS,
+  scanNetworkContent,
+  scanNetworkDirectory,
+} from "../scanner/network-detector";
+import { redactFinding } from "../scanner/reporter";
+import { toRuleId } from "../scanner/rules";
+import { Finding } from "../scanner/types";
+import { ERROR_CODES, RequestError } from "../utils/json-rpc";
+
+export interface ToolContext {
+  /** Directory relative paths resolve against; tools stay inside it */
+  readonly rootDir: string;
+}
+
+export interface Tool {
+  readonly name: string;
+  readonly description: string;
+  /** JSON Schema of the arguments */
+  readonly inputSchema: object;
+  readonly run: (args: ToolArguments, context: ToolContext) => Promise<object>;
+}
+
+type ToolArguments = Readonly<Record<string, unknown>>;
+
+/**
+ * A failure the agent can act on, such as a missing file. Reported as a
+ * tool result with isError rather than a protocol error.
+ */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+/** A finding as tools report it */
+interface ToolFinding extends Finding {
+  readonly rule: string;
+  readonly kind: "secrets" | "network";
+}
+
+const LANGUAGE_EXTENSIONS: Readonly<Record<string, string>> = {
+  typescript: ".ts",
+  tsx: ".tsx",
+  javascript: ".js",
+  jsx: ".jsx",
+  json: ".json",
+  yaml: ".yaml",
+  markdown: ".md",
+  python: ".py",
+  ruby: ".rb",
+  go: ".go",
+  shell: ".sh",
+  text: ".txt",
+};
+
+function optionalString(args: ToolArguments, name: string): string | undefined {
+  const value = args[name];
+  if (value !== undefined && typeof value !== "string") {
+    throw new RequestError(
+      ERROR_CODES.InvalidParams,
+      `"${name}" must be a string`,
+    );
+  }
+  return value;
+}
+
+function requiredString(args: ToolArguments, name: string): string {
+  const value = optionalString(args, name);
+  if (value === undefined) {
+    throw new RequestError(ERROR_CODES.InvalidParams, `"${name}" is required`);
+  }
+  return value;
+}
+
+/**
+ * Resolve a path argument, refusing paths outside the root directory
+ */
+function resolveInside(context: ToolContext, relativePath: string): string {
+  const fullPath = path.resolve(context.rootDir, relativePath);
+  const relative = path.relative(context.rootDir, fullPath);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new ToolError(`${relativePath} is outside ${context.rootDir}`);
+  }
+  return fullPath;
+}
+
+function loadToolConfig(
+  context: ToolContext,
+  fullPath: string,
+): ResolvedConfig {
+  return resolveConfig(loadConfig(fullPath), {}, context.rootDir);
+}
+
+function toToolFinding(
+  context: ToolContext,
+  kind: ToolFinding["kind"],
+): (finding: Finding) => ToolFinding {
+  return (finding) => ({
+    ...redactFinding(finding),
+    filePath: path
+      .relative(context.rootDir, finding.filePath)
+      .split(path.sep)
+      .join("/"),
+    rule: toRuleId(finding.pattern),
+    kind,
+  });
+}
+
+function summarize(findings: readonly ToolFinding[]) {
+  const errors = findings.filter((f) => f.severity === "error").length;
+  return { errors, warnings: findings.length - errors };
+}
+
+/**
+ * Secret and network findings of unsaved content, as if it were at filePath
+ */
+function scanUnsaved(
+  context: ToolContext,
+  filePath: string,
+  content: string,
+): { secrets: Finding[]; network: Finding[] } {
+  const config = loadToolConfig(context, filePath);
+  const options = fileScanOptions({ config }, filePath);
+
+  return {
+    secrets: scanContent(content, filePath, options),
+    network: NETWORK_EXTENSIONS.includes(path.extname(filePath).toLowerCase())
+      ? scanNetworkContent(content, filePath, options)
+      : [],
+  };
+}
+
+const scanSnippet: Tool = {
+  name: "scan_snippet",
+  description:
+    "Scan code before writing it to disk for hardcoded secrets and network security issues such as logged credentials.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      code: { type: "string", description: "The code to check" },
+      language: {
+        type: "string",
+        description: `Language of the code: ${Object.keys(LANGUAGE_EXTENSIONS).join(", ")}`,
+      },
+      path: {
+        type: "string",
+        description:
+          "File the code is meant for, relative to the project; used to apply per-file config and tell client code apart",
+      },
+    },
+    required: ["code"],
+  },
+  async run(args, context) {
+    const code = requiredString(args, "code");
+    const language = optionalString(args, "language");
+    const target = optionalString(args, "path");
+    const extension = language
+      ? LANGUAGE_EXTENSIONS[language.toLowerCase()]
+      : undefined;
+    if (language && !extension) {
+      throw new RequestError(
+        ERROR_CODES.InvalidParams,
+        `Unknown language "${language}"`,
+      );
+    }
+
+    const filePath = target
+      ? resolveInside(context, target)
+      : path.join(context.rootDir, `snippet${extension ?? ".ts"}`);
+    const { secrets, network } = scanUnsaved(context, filePath, code);
+    const findings = [
+      ...secrets.map(toToolFinding(context, "secrets")),
+      ...network.map(toToolFinding(context, "network")),
+    ];
+
+    return { findings, summary: summarize(findings) };
+  },
+};
+
+const scanPath: Tool = {
+  name: "scan_path",
+  description:
+    "Scan a file or directory in the project for hardcoded secrets and network security issues.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "File or directory relative to the project",
+      },
+    },
+    required: ["path"],
+  },
+  async run(args, context) {
+    const relativePath = requiredString(args, "path");
+    const fullPath = resolveInside(context, relativePath);
+    if (!fs.existsSync(fullPath)) {
+      throw new ToolError(`${relativePath} does not exist`);
+    }
+
+    const config = loadToolConfig(context, fullPath);
+    const results = await scanDirectory({ path: fullPath, config });
+    const network = await scanNetworkDirectory({ path: fullPath, config });
+    const findings = [
+      ...results
+        .flatMap((r) => r.findings)
+        .map(toToolFinding(context, "secrets")),
+      ...network.map(toToolFinding(context, "network")),
+    ];
+
+    return {
+      findings,
+      errors: results
+        .filter((r) => r.error)
+        .map((r) => ({ filePath: r.filePath, error: r.error })),
+      summary: summarize(findings),
+    };
+  },
+};
+
+const explainRule: Tool = {
+  name: "explain_rule",
+  description:
+    "Explain a vibecurb rule: what it detects, its severity, how to fix findings and how to suppress it.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      name: {
+        type: "string",
+        description: 'Rule id or name, e.g. "github-token"',
+      },
+    },
+    required: ["name"],
+  },
+  async run(args, context) {
+    const name = requiredString(args, "name");
+    const config = loadToolConfig(context, context.rootDir);
+    const rule = getRuleCatalog(config).find((r) => r.id === toRuleId(name));
+    if (!rule) {
+      throw new ToolError(`Unknown rule "${name}"`);
+    }
+
+    return {
+      ...rule,
+      suppression: `// vibecurb-ignore-next-line ${rule.id} -- reason`,
+    };
+  },
+};
+
+const proposeFix: Tool = {
+  name: "propose_fix",
+  description:
+    "Propose a fix for the findings on one line: a masked patch moving secrets to .env, or the fix suggestion for other issues. Nothing is written.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "File relative to the project",
+      },
+      line: { type: "integer", minimum: 1, description: "1-based line" },
+      rule: {
+        type: "string",
+        description: "Only fix findings of this rule",
+      },
+      code: {
+        type: "string",
+        description: "Unsaved content of the file, used instead of the disk",
+      },
+    },
+    required: ["path", "line"],
+  },
+  async run(args, context) {
+    const relativePath = requiredString(args, "path");
+    const filePath = resolveInside(context, relativePath);
+    const code = optionalString(args, "code");
+    const rule = optionalString(args, "rule");
+    const line = args.line;
+    if (typeof line !== "number" || !Number.isInteger(line) || line < 1) {
+      throw new RequestError(
+        ERROR_CODES.InvalidParams,
+        '"line" must be a positive integer',
+      );
+    }
+
+    const content =
+      code ??
+      (fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : null);
+    if (content === null) {
+      throw new ToolError(`${relativePath} does not exist`);
+    }
+
+    const onLine = (finding: Finding) =>
+      finding.lineNumber === line &&
+      (!rule || toRuleId(finding.pattern) === toRuleId(rule));
+    const scanned = scanUnsaved(context, filePath, content);
+    const secrets = scanned.secrets.filter(onLine);
+    const network = scanned.network.filter(onLine);
+    if (secrets.length === 0 && network.length === 0) {
+      throw new ToolError(`No findings on line ${line}`);
+    }
+
+    const preview =
+      secrets.length > 0
+        ? previewFixes(loadToolConfig(context, filePath).rootDir, secrets, {
+            contents: new Map([[filePath, content]]),
+          })
+        : null;
+
+    return {
+      patch: preview?.patch || null,
+      envVars: preview?.envVars ?? [],
+      skipped: (preview?.skipped ?? []).map(({ finding, reason }) => ({
+        rule: toRuleId(finding.pattern),
+        reason,
+      })),
+      suggestions: [...secrets, ...network].map((finding) => ({
+        rule: toRuleId(finding.pattern),
+        message: finding.message,
+        fixSuggestion: finding.fixSuggestion,
+      })),
+    };
+  },
+};
+
+export const MCP_TOOLS: readonly Tool[] = [
+  scanSnippet,
+  scanPath,
+  explainRule,
+  proposeFix,
+];
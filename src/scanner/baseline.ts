@@ -0,0 +1,116 @@
+/**
+ * Baseline of accepted findings
+ * Fingerprints are hashes, so the baseline file never contains secrets.
+ * They ignore line numbers, so findings stay baselined when code moves.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { toRuleId } from "./rules";
+import { Finding } from "./types";
+
+export const BASELINE_FILE_NAME = ".vibecurb-baseline.json";
+
+export interface BaselineEntry {
+  readonly fingerprint: string;
+  readonly rule: string;
+  readonly file: string;
+  /** Line at the time the baseline was written; informational only */
+  readonly line: number;
+}
+
+export interface Baseline {
+  readonly version: 1;
+  readonly createdAt: string;
+  readonly entries: readonly BaselineEntry[];
+}
+
+function relativePath(rootDir: string, filePath: string): string {
+  return path
+    .relative(rootDir, path.resolve(rootDir, filePath))
+    .split(path.sep)
+    .join("/");
+}
+
+/**
+ * Fingerprint findings. Identical matches of one rule in one file are told
+ * apart by their order of occurrence.
+ */
+export function fingerprintFindings(
+  findings: readonly Finding[],
+  rootDir: string,
+): string[] {
+  const occurrences = new Map<string, number>();
+
+  return findings.map((finding) => {
+    const key = [
+      toRuleId(finding.pattern),
+      relativePath(rootDir, finding.filePath),
+      finding.match,
+    ].join("\u0000");
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+
+    return crypto
+      .createHash("sha256")
+      .update(`${key}\u0000${occurrence}`)
+      .digest("hex")
+      .substring(0, 32);
+  });
+}
+
+/**
+ * Build a baseline from current findings
+ */
+export function createBaseline(
+  findings: readonly Finding[],
+  rootDir: string,
+): Baseline {
+  const fingerprints = fingerprintFindings(findings, rootDir);
+
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    entries: findings.map((finding, index) => ({
+      fingerprint: fingerprints[index],
+      rule: toRuleId(finding.pattern),
+      file: relativePath(rootDir, finding.filePath),
+      line: finding.lineNumber,
+    })),
+  };
+}
+
+export function writeBaseline(baselinePath: string, baseline: Baseline): void {
+  fs.writeFileSync(baselinePath, `${JSON.stringify(baseline, null, 2)}\n`);
+}
+
+/**
+ * Read a baseline file, or null when it does not exist
+ */
+export function loadBaseline(baselinePath: string): Baseline | null {
+  if (!fs.existsSync(baselinePath)) {
+    return null;
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(baselinePath, "utf8"));
+  if (parsed?.version !== 1 || !Array.isArray(parsed.entries)) {
+    throw new Error(`Unsupported baseline file: ${baselinePath}`);
+  }
+
+  return parsed as Baseline;
+}
+
+/**
+ * Drop findings that are recorded in the baseline
+ */
+export function filterBaseline<T extends Finding>(
+  findings: readonly T[],
+  baseline: Baseline,
+  rootDir: string,
+): T[] {
+  const accepted = new Set(baseline.entries.map((e) => e.fingerprint));
+  const fingerprints = fingerprintFindings(findings, rootDir);
+
+  return findings.filter((_, index) => !accepted.has(fingerprints[index]));
+}
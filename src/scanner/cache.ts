@@ -0,0 +1,146 @@
+/**
+ * Scan cache - reuses the findings of files whose content and rules have
+ * not changed since the last scan
+ * The cache holds matched secrets, so its directory ignores itself in git.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { hashContent, STATE_DIR_NAME } from "../fixer/journal";
+import { VERSION } from "../version";
+import { FileScanOptions, Finding } from "./types";
+
+export const CACHE_FILE_NAME = "cache.json";
+
+export interface CacheEntry {
+  /** sha256 of the file content */
+  readonly hash: string;
+  /** sha256 of the vibecurb version, scanner and per-file options */
+  readonly ruleset: string;
+  readonly findings: readonly Finding[];
+}
+
+export interface CacheFile {
+  readonly version: 1;
+  /** Keyed by scanner and path relative to the cache root */
+  readonly entries: Readonly<Record<string, CacheEntry>>;
+}
+
+export interface ScanCache {
+  /** Stored findings, or undefined when the file or its rules changed */
+  get(
+    scanner: string,
+    filePath: string,
+    content: string,
+    options: FileScanOptions,
+  ): Finding[] | undefined;
+  set(
+    scanner: string,
+    filePath: string,
+    content: string,
+    options: FileScanOptions,
+    findings: readonly Finding[],
+  ): void;
+  /** Write the cache if anything changed, dropping deleted files */
+  save(): void;
+}
+
+export function getCachePath(rootDir: string): string {
+  return path.join(rootDir, STATE_DIR_NAME, CACHE_FILE_NAME);
+}
+
+function readCacheFile(cachePath: string): CacheFile {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(cachePath, "utf8"));
+    if (parsed?.version === 1 && typeof parsed.entries === "object") {
+      return parsed as CacheFile;
+    }
+  } catch {
+    // Missing or corrupt; start over
+  }
+  return { version: 1, entries: {} };
+}
+
+function rulesetHash(scanner: string, options: FileScanOptions): string {
+  return hashContent(
+    JSON.stringify({ version: VERSION, scanner, options }, (_key, value) =>
+      value instanceof RegExp ? value.toString() : value,
+    ),
+  );
+}
+
+/**
+ * Open the cache under rootDir/.vibecurb
+ */
+export function openScanCache(rootDir: string): ScanCache {
+  const cachePath = getCachePath(rootDir);
+  const entries: Record<string, CacheEntry> = {
+    ...readCacheFile(cachePath).entries,
+  };
+  let dirty = false;
+
+  const keyOf = (scanner: string, filePath: string) =>
+    `${scanner}:${path.relative(rootDir, filePath).split(path.sep).join("/")}`;
+
+  return {
+    get(scanner, filePath, content, options) {
+      const entry = entries[keyOf(scanner, filePath)];
+      if (
+        !entry ||
+        entry.hash !== hashContent(content) ||
+        entry.ruleset !== rulesetHash(scanner, options)
+      ) {
+        return undefined;
+      }
+      // Findings are stored with the path they were found at
+      return entry.findings.map((finding) => ({ ...finding, filePath }));
+    },
+
+    set(scanner, filePath, content, options, findings) {
+      entries[keyOf(scanner, filePath)] = {
+        hash: hashContent(content),
+        ruleset: rulesetHash(scanner, options),
+        findings,
+      };
+      dirty = true;
+    },
+
+    save() {
+      Object.keys(entries).forEach((key) => {
+        const relative = key.slice(key.indexOf(":") + 1);
+        if (!fs.existsSync(path.join(rootDir, relative))) {
+          delete entries[key];
+          dirty = true;
+        }
+      });
+      if (!dirty) {
+        return;
+      }
+
+      const stateDir = path.dirname(cachePath);
+      fs.mkdirSync(stateDir, { recursive: true });
+      const ignorePath = path.join(stateDir, ".gitignore");
+      if (!fs.existsSync(ignorePath)) {
+        fs.writeFileSync(ignorePath, "*\n");
+      }
+
+      const cache: CacheFile = { version: 1, entries };
+      const tempPath = `${cachePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(cache), { mode: 0o600 });
+      fs.renameSync(tempPath, cachePath);
+      dirty = false;
+    },
+  };
+}
+
+/**
+ * Delete the cache under rootDir; false when there was none
+ */
+export function clearScanCache(rootDir: string): boolean {
+  const cachePath = getCachePath(rootDir);
+  if (!fs.existsSync(cachePath)) {
+    return false;
+  }
+  fs.rmSync(cachePath);
+  return true;
+}
@@ -0,0 +1,112 @@
+/**
+ * Rule catalog - metadata for built-in and rule pack rules
+ */
+
+import { ResolvedConfig } from "../config/types";
+import { CLIENT_EXPOSURE_RULES } from "./client-exposure";
+import { ENTROPY_RULE } from "./entropy";
+import { ENV_CHECK_RULES } from "./env-check";
+import {
+  DATA_FLOW_RULES,
+  NETWORK_PATTERNS,
+  NETWORK_SECURITY_CHECKS,
+} from "./network-patterns";
+import { PATTERNS } from "./patterns";
+import { RulePack } from "./rule-packs";
+import { toRuleId } from "./rules";
+import { RuleSetting } from "./types";
+
+export interface RuleInfo {
+  readonly id: string;
+  readonly name: string;
+  /** "secrets" rules run in scan, "network" in scan-network, "env" in env-check */
+  readonly kind: "secrets" | "network" | "env";
+  readonly category: string;
+  readonly defaultSeverity: "error" | "warning";
+  /** Severity after top-level config rules are applied */
+  readonly severity: RuleSetting;
+  /** "built-in" or the name of the rule pack */
+  readonly source: string;
+  readonly message: string;
+  readonly fixSuggestion: string;
+}
+
+function builtInRules(): RuleInfo[] {
+  const info = (
+    rule: {
+      name: string;
+      severity: "error" | "warning";
+      message: string;
+      fixSuggestion: string;
+    },
+    kind: RuleInfo["kind"],
+    category: string,
+  ): RuleInfo => ({
+    id: toRuleId(rule.name),
+    name: rule.name,
+    kind,
+    category,
+    defaultSeverity: rule.severity,
+    severity: rule.severity,
+    source: "built-in",
+    message: rule.message,
+    fixSuggestion: rule.fixSuggestion,
+  });
+
+  return [
+    ...[...PATTERNS, ENTROPY_RULE].map((p) => info(p, "secrets", "secrets")),
+    ...CLIENT_EXPOSURE_RULES.map((r) => info(r, "secrets", "client-exposure")),
+    ...[...NETWORK_PATTERNS, ...DATA_FLOW_RULES].map((p) =>
+      info(p, "network", p.category),
+    ),
+    ...ENV_CHECK_RULES.map((r) => info(r, "env", "env")),
+    ...NETWORK_SECURITY_CHECKS.map((check) =>
+      info(
+        {
+          name: check.name,
+          severity: check.severity,
+          message: check.description,
+          fixSuggestion: "Review this code for security issues",
+        },
+        "network",
+        "logging",
+      ),
+    ),
+  ];
+}
+
+function packRules(pack: RulePack): RuleInfo[] {
+  return pack.rules.map(({ pattern, category }) => ({
+    id: toRuleId(pattern.name),
+    name: pattern.name,
+    kind: category === "secret" ? "secrets" : "network",
+    category: category === "secret" ? "secrets" : category,
+    defaultSeverity: pattern.severity,
+    severity: pattern.severity,
+    source: pack.name,
+    message: pattern.message,
+    fixSuggestion: pattern.fixSuggestion,
+  }));
+}
+
+/**
+ * Ids of all built-in rules; rule packs may not reuse them
+ */
+export function builtInRuleIds(): Set<string> {
+  return new Set(builtInRules().map((rule) => rule.id));
+}
+
+/**
+ * List every rule, with severities from the config's top-level rule settings
+ */
+export function getRuleCatalog(config?: ResolvedConfig): RuleInfo[] {
+  const rules = [
+    ...builtInRules(),
+    ...(config?.rulePacks ?? []).flatMap(packRules),
+  ];
+
+  return rules.map((rule) => ({
+    ...rule,
+    severity: config?.rules[rule.id] ?? rule.defaultSeverity,
+  }));
+}
@@ -0,0 +1,138 @@
+/**
+ * Client-bundle exposure detector
+ * Finds secrets that reach the browser: secret-looking variables with a
+ * public prefix (NEXT_PUBLIC_, VITE_, REACT_APP_), which bundlers inline,
+ * and server secrets read from client code.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { isSecretLikeName } from "./entropy";
+import { publicEnvPrefix } from "./framework";
+
+export interface ClientExposureRule {
+  readonly name: string;
+  readonly severity: "error" | "warning";
+  readonly message: string;
+  readonly fixSuggestion: string;
+}
+
+export const PUBLIC_ENV_SECRET_RULE: ClientExposureRule = {
+  name: "Secret in Public Env Var",
+  severity: "error",
+  message:
+    "Secret-looking variable has a public prefix and is inlined into the client bundle",
+  fixSuggestion:
+    "Drop the public prefix and read the value in server code, e.g. an API route",
+};
+
+export const SERVER_SECRET_IN_CLIENT_RULE: ClientExposureRule = {
+  name: "Server Secret in Client Code",
+  severity: "error",
+  message: "Server-only secret is referenced from code bundled for the browser",
+  fixSuggestion:
+    "Move this code to a server component, API route or backend endpoint",
+};
+
+export const CLIENT_EXPOSURE_RULES: readonly ClientExposureRule[] = [
+  PUBLIC_ENV_SECRET_RULE,
+  SERVER_SECRET_IN_CLIENT_RULE,
+];
+
+/** Build output directories that hold client bundles */
+export const CLIENT_BUNDLE_DIRS = [
+  ".next/static",
+  "dist/assets",
+  "build/static",
+  "out/_next/static",
+];
+
+export const CLIENT_BUNDLE_EXTENSIONS = [".js", ".mjs", ".html", ".json"];
+
+export interface ExposureMatch {
+  readonly rule: ClientExposureRule;
+  /** 0-based index of the variable reference in the line */
+  readonly index: number;
+  readonly match: string;
+  readonly variableName: string;
+}
+
+const ENV_REFERENCE_REGEX =
+  /(?:process\.env|import\.meta\.env)(?:\.([A-Za-z_][A-Za-z0-9_]*)|\[\s*["']([A-Za-z_][A-Za-z0-9_]*)["']\s*\])/g;
+const ENV_DEFINITION_REGEX = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/;
+// Public by design, e.g. Stripe publishable keys or Supabase anon keys
+const PUBLIC_NAME_WORDS = ["publishable", "public", "anon", "site"];
+
+/**
+ * .env or .env.*, e.g. .env.local; not .envrc
+ */
+export function isEnvFile(filePath: string): boolean {
+  const name = path.basename(filePath);
+  return name === ".env" || name.startsWith(".env.");
+}
+
+/**
+ * Secret-looking, ignoring the prefix and names that are public by design
+ */
+function isSecretName(name: string): boolean {
+  const words = name.toLowerCase().split("_");
+  return (
+    isSecretLikeName(name) &&
+    !words.some((word) => PUBLIC_NAME_WORDS.includes(word))
+  );
+}
+
+/**
+ * Check one line for env variables that expose secrets to the browser
+ */
+export function detectClientExposure(
+  line: string,
+  filePath: string,
+  clientSide: boolean,
+): ExposureMatch[] {
+  if (isEnvFile(filePath)) {
+    const definition = ENV_DEFINITION_REGEX.exec(line);
+    const name = definition?.[1];
+    const prefix = name && publicEnvPrefix(name);
+    return name && prefix && isSecretName(name.slice(prefix.length))
+      ? [
+          {
+            rule: PUBLIC_ENV_SECRET_RULE,
+            index: line.indexOf(name),
+            match: name,
+            variableName: name,
+          },
+        ]
+      : [];
+  }
+
+  const matches: ExposureMatch[] = [];
+
+  for (const reference of line.matchAll(ENV_REFERENCE_REGEX)) {
+    const name = reference[1] ?? reference[2];
+    const prefix = publicEnvPrefix(name);
+    const rule = prefix
+      ? isSecretName(name.slice(prefix.length)) && PUBLIC_ENV_SECRET_RULE
+      : clientSide && isSecretName(name) && SERVER_SECRET_IN_CLIENT_RULE;
+
+    if (rule) {
+      matches.push({
+        rule,
+        index: reference.index ?? 0,
+        match: reference[0],
+        variableName: name,
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Client bundle directories that exist under a project
+ */
+export function findClientBundleDirs(rootDir: string): string[] {
+  return CLIENT_BUNDLE_DIRS.map((dir) => path.join(rootDir, dir)).filter(
+    (dir) => fs.existsSync(dir) && fs.statSync(dir).isDirectory(),
+  );
+}
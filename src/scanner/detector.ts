@@ -4,8 +4,34 @@
 
 import * as fs from "fs";
 import * as path from "path";
+import { resolveFilePolicy } from "../config/policy";
+import { ResolvedConfig } from "../config/types";
+import {
+  DEFAULT_ENTROPY_OPTIONS,
+  detectHighEntropyStrings,
+  ENTROPY_RULE,
+  HIGH_CONFIDENCE,
+} from "./entropy";
+import {
+  CLIENT_BUNDLE_EXTENSIONS,
+  detectClientExposure,
+  findClientBundleDirs,
+  isEnvFile,
+} from "./client-exposure";
+import { collectResults, scanFiles } from "./engine";
+import { detectProject, isClientCode } from "./framework";
+import { matchesAnyGlob } from "../utils/glob";
 import { PATTERNS } from "./patterns";
-import { Finding, ScanResult, ScanOptions } from "./types";
+import { effectiveSeverity, passesSeverityFilter, toRuleId } from "./rules";
+import { applySuppressions } from "./suppressions";
+import {
+  Finding,
+  FileScanOptions,
+  ScanResult,
+  ScanOptions,
+  TextScanOptions,
+} from "./types";
+import { WalkOptions } from "./walker";
 
 const DEFAULT_EXTENSIONS = [
   ".js",
@@ -25,128 +51,378 @@ const DEFAULT_EXCLUDE = [
   "build",
   ".git",
   "coverage",
-  ".env",
-  ".env.local",
   ".next",
 ] as const;
 
-export function scanFile(
+// Bundlers emit large single-file chunks
+const CLIENT_BUNDLE_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Client exposure findings on one line
+ */
+function exposureFindings(
+  line: string,
+  lineNumber: number,
   filePath: string,
-  options: { severity?: "error" | "warning" | "all" } = {},
+  clientSide: boolean,
+  options: FileScanOptions,
+): Finding[] {
+  return detectClientExposure(line, filePath, clientSide).flatMap((match) => {
+    const severity = effectiveSeverity(
+      match.rule.name,
+      match.rule.severity,
+      options.rules,
+    );
+    if (!severity || !passesSeverityFilter(severity, options.severity)) {
+      return [];
+    }
+
+    return [
+      {
+        filePath,
+        lineNumber,
+        column: match.index + 1,
+        match: match.match.substring(0, 100),
+        pattern: match.rule.name,
+        severity,
+        message: `${match.rule.message} (${match.variableName})`,
+        fixSuggestion: match.rule.fixSuggestion,
+      },
+    ];
+  });
+}
+
+/**
+ * Scan in-memory content; filePath is only used to label findings
+ */
+export function scanContent(
+  content: string,
+  filePath: string,
+  options: FileScanOptions = {},
 ): Finding[] {
   const findings: Finding[] = [];
+  const lines = content.split("\n");
 
-  try {
-    const content = fs.readFileSync(filePath, "utf8");
-    const lines = content.split("\n");
+  const patterns = [...PATTERNS, ...(options.customPatterns ?? [])];
+  const clientSide = options.project
+    ? isClientCode(filePath, content, options.project)
+    : false;
+
+  lines.forEach((line, index) => {
+    patterns.forEach((pattern) => {
+      const severity = effectiveSeverity(
+        pattern.name,
+        pattern.severity,
+        options.rules,
+      );
+
+      // Skip disabled rules and those the severity filter doesn't match
+      if (!severity || !passesSeverityFilter(severity, options.severity)) {
+        return;
+      }
 
-    lines.forEach((line, index) => {
-      PATTERNS.forEach(pattern => {
-        // Skip if severity filter doesn't match
+      const matches = line.matchAll(pattern.regex);
+
+      for (const match of matches) {
+        // Skip test fixtures that contain FAKE_ prefix
+        if (match[0].includes("FAKE_") || match[0].includes("YOUR_")) {
+          continue;
+        }
+
+        // Skip example/documentation placeholders
         if (
-          options.severity &&
-          options.severity !== "all" &&
-          pattern.severity !== options.severity
+          match[0].includes("example") ||
+          match[0].includes("placeholder") ||
+          match[0].includes("xxx") ||
+          match[0].includes("XXXX")
         ) {
-          return;
+          continue;
         }
 
-        const matches = line.matchAll(pattern.regex);
-
-        for (const match of matches) {
-          // Skip test fixtures that contain FAKE_ prefix
-          if (match[0].includes("FAKE_") || match[0].includes("YOUR_")) {
-            continue;
-          }
-
-          // Skip example/documentation placeholders
-          if (
-            match[0].includes("example") ||
-            match[0].includes("placeholder") ||
-            match[0].includes("xxx") ||
-            match[0].includes("XXXX")
-          ) {
-            continue;
-          }
-
-          findings.push({
-            filePath,
-            lineNumber: index + 1,
-            column: (match.index || 0) + 1,
-            match: match[0].substring(0, 100), // Limit length for display
-            pattern: pattern.name,
-            severity: pattern.severity,
-            message: pattern.message,
-            fixSuggestion: pattern.fixSuggestion,
-          });
-        }
+        findings.push({
+          filePath,
+          lineNumber: index + 1,
+          column: (match.index || 0) + 1,
+          match: match[0].substring(0, 100), // Limit length for display
+          pattern: pattern.name,
+          severity,
+          message: pattern.message,
+          fixSuggestion: pattern.fixSuggestion,
+        });
+      }
+    });
+
+    scanLineExposure(line, index + 1);
+    scanLineEntropy(line, index + 1);
+  });
+
+  function scanLineExposure(line: string, lineNumber: number): void {
+    findings.push(
+      ...exposureFindings(line, lineNumber, filePath, clientSide, options),
+    );
+  }
+
+  function scanLineEntropy(line: string, lineNumber: number): void {
+    const patternSpans = findings
+      .filter((f) => f.lineNumber === lineNumber)
+      .map((f) => [f.column - 1, f.column - 1 + f.match.length]);
+
+    detectHighEntropyStrings(
+      line,
+      options.entropy ?? DEFAULT_ENTROPY_OPTIONS,
+    ).forEach((match) => {
+      // Vendor patterns already reported this literal
+      if (
+        patternSpans.some(
+          ([start, end]) => match.index < end && match.index >= start,
+        )
+      ) {
+        return;
+      }
+
+      const severity = effectiveSeverity(
+        ENTROPY_RULE.name,
+        match.confidence >= HIGH_CONFIDENCE ? "error" : ENTROPY_RULE.severity,
+        options.rules,
+      );
+      if (!severity || !passesSeverityFilter(severity, options.severity)) {
+        return;
+      }
+
+      findings.push({
+        filePath,
+        lineNumber,
+        column: match.index + 1,
+        match: match.value.substring(0, 100),
+        pattern: ENTROPY_RULE.name,
+        severity,
+        message: match.variableName
+          ? `${ENTROPY_RULE.message} (assigned to ${match.variableName})`
+          : ENTROPY_RULE.message,
+        fixSuggestion: ENTROPY_RULE.fixSuggestion,
+        confidence: match.confidence,
       });
     });
+  }
+
+  return applySuppressions(content, findings);
+}
+
+/**
+ * Scan the content of a file in the project. .env files are where secrets
+ * belong, so they are only checked for secrets in public variables.
+ */
+export function scanProjectContent(
+  content: string,
+  filePath: string,
+  options: FileScanOptions = {},
+): Finding[] {
+  if (!isEnvFile(filePath)) {
+    return scanContent(content, filePath, options);
+  }
+
+  const findings = content
+    .split("\n")
+    .flatMap((line, index) =>
+      exposureFindings(line, index + 1, filePath, false, options),
+    );
+  return applySuppressions(content, findings);
+}
+
+export function scanFile(
+  filePath: string,
+  options: FileScanOptions = {},
+): Finding[] {
+  try {
+    const content = fs.readFileSync(filePath, "utf8");
+    return scanContent(content, filePath, options);
   } catch (error) {
     // Log minimal error info without exposing file contents
     console.error(`Error reading file: ${path.basename(filePath)}`);
   }
 
-  return findings;
+  return [];
 }
 
-export function scanDirectory(options: ScanOptions): ScanResult[] {
-  const results: ScanResult[] = [];
-  const extensions = options.extensions || DEFAULT_EXTENSIONS;
-  const exclude = options.exclude || DEFAULT_EXCLUDE;
+/** Label for findings in text scanned without a filename */
+export const STDIN_FILENAME = "<stdin>";
 
-  function scanRecursive(dirPath: string): void {
-    try {
-      const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+/**
+ * Run a content scanner on text as if it were the file options.filename,
+ * labelling findings with that name
+ */
+export function scanTextWith<T extends Finding>(
+  scan: (content: string, filePath: string, options: FileScanOptions) => T[],
+  content: string,
+  options: TextScanOptions,
+): T[] {
+  const filename = options.filename ?? STDIN_FILENAME;
+  const filePath = path.resolve(filename);
 
-      for (const entry of entries) {
-        const fullPath = path.join(dirPath, entry.name);
+  return scan(content, filePath, fileScanOptions(options, filePath)).map(
+    (finding) => ({ ...finding, filePath: filename }),
+  );
+}
 
-        // Skip excluded directories
-        if (entry.isDirectory()) {
-          if (!exclude.includes(entry.name)) {
-            scanRecursive(fullPath);
-          }
-          continue;
-        }
+/**
+ * Scan text that is not on disk, such as piped input or generated code,
+ * for secrets
+ */
+export function scanText(
+  content: string,
+  options: TextScanOptions = {},
+): Finding[] {
+  return scanTextWith(scanContent, content, options);
+}
 
-        // Check file extension
-        const ext = path.extname(entry.name).toLowerCase();
-        if (extensions.includes(ext)) {
-          const findings = scanFile(fullPath, {
-            severity: options.severity,
-          });
-
-          if (findings.length > 0) {
-            results.push({
-              filePath: fullPath,
-              findings,
-            });
-          }
-        }
-      }
-    } catch (error) {
-      results.push({
-        filePath: dirPath,
-        findings: [],
-        error: "Permission denied or directory not accessible",
-      });
-    }
-  }
+/**
+ * Resolve the per-file scan options from scan options and config
+ */
+export function fileScanOptions(
+  options: Omit<ScanOptions, "path">,
+  filePath: string,
+): FileScanOptions {
+  const policy = options.config
+    ? resolveFilePolicy(options.config, filePath)
+    : {};
 
-  const stat = fs.statSync(options.path);
+  return {
+    ...policy,
+    severity: options.severity ?? policy.severity,
+    project: options.config
+      ? detectProject(filePath, options.config.rootDir)
+      : undefined,
+  };
+}
 
-  if (stat.isFile()) {
-    const findings = scanFile(options.path, { severity: options.severity });
-    if (findings.length > 0) {
-      results.push({
-        filePath: options.path,
-        findings,
-      });
+/**
+ * Check whether a relative file path, or a directory it is in, matches an
+ * exclude glob, or the path misses the include globs
+ */
+export function isExcludedPath(
+  relativePath: string,
+  options: Omit<ScanOptions, "path">,
+): boolean {
+  const { exclude, include } = walkOptions({ ...options, path: "" });
+  const segments = relativePath.split(/[\\/]/);
+
+  return (
+    segments.some((_, i) =>
+      matchesAnyGlob(segments.slice(0, i + 1).join("/"), exclude),
+    ) ||
+    (include !== undefined &&
+      include.length > 0 &&
+      !matchesAnyGlob(relativePath, include))
+  );
+}
+
+/**
+ * Check a relative file path against the extension and exclude filters.
+ * .env files pass whatever the extensions, for the public env var rule.
+ */
+export function isScannablePath(
+  relativePath: string,
+  options: Omit<ScanOptions, "path">,
+): boolean {
+  const extensions =
+    options.extensions || options.config?.extensions || DEFAULT_EXTENSIONS;
+
+  return (
+    (extensions.includes(path.extname(relativePath).toLowerCase()) ||
+      isEnvFile(relativePath)) &&
+    !isExcludedPath(relativePath, options)
+  );
+}
+
+/**
+ * Walker settings for scan options, falling back to config and defaults
+ */
+export function walkOptions(options: ScanOptions): WalkOptions {
+  return {
+    path: options.path,
+    extensions:
+      options.extensions || options.config?.extensions || DEFAULT_EXTENSIONS,
+    exclude: options.exclude || options.config?.exclude || DEFAULT_EXCLUDE,
+    include: options.include || options.config?.include,
+    ignoreFiles: options.ignoreFiles,
+    only: options.files,
+  };
+}
+
+/**
+ * Stream the results of scanning a file or directory as files finish,
+ * including files without findings and skipped files
+ */
+export function streamDirectory(
+  options: ScanOptions,
+): AsyncGenerator<ScanResult> {
+  // .env files define the variables secret-in-public-env-var checks
+  const walk = { ...walkOptions(options), alsoWalk: isEnvFile };
+
+  return scanFiles(walk, {
+    scanner: "secrets",
+    scan: scanProjectContent,
+    fileOptions: (filePath) => fileScanOptions(options, filePath),
+    workers: options.workers,
+    maxFileSize: options.maxFileSize,
+    scanGenerated: options.scanGenerated ?? options.config?.scanGenerated,
+    cache: options.cache,
+  });
+}
+
+/**
+ * Scan a file or directory; only files with findings or errors are returned
+ */
+export function scanDirectory(options: ScanOptions): Promise<ScanResult[]> {
+  return collectResults(streamDirectory(options));
+}
+
+/**
+ * Scan built client bundles (.next/static, dist/assets, ...) for secrets
+ * that were inlined at build time. Entropy is skipped: minified code is full
+ * of random-looking strings.
+ */
+export async function* streamClientBundles(
+  rootDir: string,
+  config: ResolvedConfig,
+  options: Pick<ScanOptions, "workers"> = {},
+): AsyncGenerator<ScanResult> {
+  const bundleConfig: ResolvedConfig = {
+    ...config,
+    rules: { ...config.rules, [toRuleId(ENTROPY_RULE.name)]: "off" },
+  };
+
+  for (const dir of findClientBundleDirs(rootDir)) {
+    const stream = streamDirectory({
+      path: dir,
+      extensions: CLIENT_BUNDLE_EXTENSIONS,
+      exclude: [],
+      config: bundleConfig,
+      workers: options.workers,
+      maxFileSize: CLIENT_BUNDLE_MAX_FILE_SIZE,
+      // Build output is gitignored and minified by design
+      ignoreFiles: false,
+      scanGenerated: true,
+    });
+
+    for await (const result of stream) {
+      yield {
+        ...result,
+        findings: result.findings.map((finding) => ({
+          ...finding,
+          message: `${finding.message} (inlined into a client bundle)`,
+        })),
+      };
     }
-  } else if (stat.isDirectory()) {
-    scanRecursive(options.path);
   }
+}
 
-  return results;
+/**
+ * Scan built client bundles; only files with findings or errors are returned
+ */
+export function scanClientBundles(
+  rootDir: string,
+  config: ResolvedConfig,
+): Promise<ScanResult[]> {
+  return collectResults(streamClientBundles(rootDir, config));
 }
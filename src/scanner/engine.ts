@@ -0,0 +1,307 @@
+/**
+ * Scan engine - reads files asynchronously and matches them on worker
+ * threads, yielding each file's result as soon as it is done
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { ScanCache } from "./cache";
+import { generatedContentReason } from "./generated";
+import { FileScanOptions, Finding, ScanResult, SkipReason } from "./types";
+import { walkFiles, WalkOptions } from "./walker";
+
+/** Content scanners the worker script knows by name */
+export type ScannerName = "secrets" | "network";
+
+export type ContentScanner<T extends Finding> = (
+  content: string,
+  filePath: string,
+  options: FileScanOptions,
+) => T[];
+
+export interface EngineOptions<T extends Finding> {
+  readonly scanner: ScannerName;
+  /** The same scanner, run in-process when there are no workers */
+  readonly scan: ContentScanner<T>;
+  readonly fileOptions: (filePath: string) => FileScanOptions;
+  /** Worker threads; defaults to one per spare CPU core */
+  readonly workers?: number;
+  readonly maxFileSize?: number;
+  /** Also scan lockfiles, generated and minified files */
+  readonly scanGenerated?: boolean;
+  readonly cache?: ScanCache;
+}
+
+/** Message the engine posts to a worker */
+export interface WorkerTask {
+  readonly scanner: ScannerName;
+  readonly filePath: string;
+  readonly content: string;
+  readonly options: FileScanOptions;
+}
+
+/** Message a worker posts back */
+export interface WorkerReply {
+  readonly findings?: Finding[];
+  readonly error?: string;
+}
+
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+// Compiled next to this file; missing when running from TypeScript sources
+const WORKER_SCRIPT = path.join(__dirname, "scan-worker.js");
+const MAX_WORKERS = 8;
+// Files read ahead of the workers
+const READ_AHEAD = 16;
+// Bytes checked for NUL when telling binary files apart, as git does
+const BINARY_SNIFF_LENGTH = 8000;
+
+interface WorkerPool {
+  run(task: WorkerTask): Promise<Finding[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Workers are started on demand, so small scans only pay for the ones
+ * they use
+ */
+function createWorkerPool(size: number): WorkerPool {
+  const workers: Worker[] = [];
+  const idle: Worker[] = [];
+  const waiting: Array<(worker: Worker) => void> = [];
+
+  function start(): Worker {
+    const worker = new Worker(WORKER_SCRIPT);
+    workers.push(worker);
+    return worker;
+  }
+
+  function acquire(): Promise<Worker> {
+    const worker = idle.pop();
+    if (worker) {
+      return Promise.resolve(worker);
+    }
+    if (workers.length < size) {
+      return Promise.resolve(start());
+    }
+    return new Promise((resolve) => waiting.push(resolve));
+  }
+
+  function release(worker: Worker): void {
+    const next = waiting.shift();
+    if (next) {
+      next(worker);
+    } else {
+      idle.push(worker);
+    }
+  }
+
+  function retire(worker: Worker): void {
+    workers.splice(workers.indexOf(worker), 1);
+    // Hand a replacement to the next waiting task
+    waiting.shift()?.(start());
+  }
+
+  return {
+    async run(task) {
+      const worker = await acquire();
+      let crashed = false;
+
+      try {
+        return await new Promise<Finding[]>((resolve, reject) => {
+          const onMessage = (reply: WorkerReply) => {
+            cleanup();
+            if (reply.error !== undefined) {
+              reject(new Error(reply.error));
+            } else {
+              resolve(reply.findings ?? []);
+            }
+          };
+          const onError = (error: Error) => {
+            cleanup();
+            crashed = true;
+            reject(error);
+          };
+          const cleanup = () => {
+            worker.off("message", onMessage);
+            worker.off("error", onError);
+          };
+
+          worker.on("message", onMessage);
+          worker.on("error", onError);
+          worker.postMessage(task);
+        });
+      } finally {
+        if (crashed) {
+          retire(worker);
+        } else {
+          release(worker);
+        }
+      }
+    },
+
+    async close() {
+      await Promise.all(workers.map((worker) => worker.terminate()));
+    },
+  };
+}
+
+function defaultWorkerCount(): number {
+  // The main thread keeps one core for reading files
+  return Math.min(os.cpus().length, MAX_WORKERS) - 1;
+}
+
+/**
+ * Whether a buffer looks binary: a NUL byte near the start
+ */
+export function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, BINARY_SNIFF_LENGTH).includes(0);
+}
+
+async function readScannable(
+  filePath: string,
+  maxFileSize: number,
+  scanGenerated: boolean,
+): Promise<{ content: string } | { skipped: SkipReason }> {
+  const stat = await fs.promises.stat(filePath);
+  if (stat.size > maxFileSize) {
+    return { skipped: "too large" };
+  }
+
+  const buffer = await fs.promises.readFile(filePath);
+  if (isBinary(buffer)) {
+    return { skipped: "binary" };
+  }
+
+  const content = buffer.toString("utf8");
+  const generated = !scanGenerated && generatedContentReason(filePath, content);
+  return generated ? { skipped: generated } : { content };
+}
+
+/**
+ * Walk a path and scan every file, yielding results in the order files
+ * finish, including files without findings and skipped files
+ */
+export async function* scanFiles<T extends Finding>(
+  walk: Omit<WalkOptions, "onUnreadable">,
+  options: EngineOptions<T>,
+): AsyncGenerator<ScanResult<T>> {
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const workerCount = fs.existsSync(WORKER_SCRIPT)
+    ? (options.workers ?? defaultWorkerCount())
+    : 0;
+  const pool = workerCount > 0 ? createWorkerPool(workerCount) : null;
+
+  const unreadable: ScanResult<T>[] = [];
+  const files = walkFiles({
+    ...walk,
+    onUnreadable: (dirPath) =>
+      unreadable.push({
+        filePath: dirPath,
+        findings: [],
+        error: "Permission denied or directory not accessible",
+      }),
+  });
+
+  async function scanOne(filePath: string): Promise<ScanResult<T>> {
+    let file: Awaited<ReturnType<typeof readScannable>>;
+    try {
+      file = await readScannable(
+        filePath,
+        maxFileSize,
+        options.scanGenerated ?? false,
+      );
+    } catch {
+      return { filePath, findings: [], error: "File not readable" };
+    }
+    if ("skipped" in file) {
+      return { filePath, findings: [], skipped: file.skipped };
+    }
+
+    try {
+      const fileOptions = options.fileOptions(filePath);
+      const cached = options.cache?.get(
+        options.scanner,
+        filePath,
+        file.content,
+        fileOptions,
+      );
+      if (cached) {
+        return { filePath, findings: cached as T[] };
+      }
+
+      const findings = pool
+        ? ((await pool.run({
+            scanner: options.scanner,
+            filePath,
+            content: file.content,
+            options: fileOptions,
+          })) as T[])
+        : options.scan(file.content, filePath, fileOptions);
+      options.cache?.set(
+        options.scanner,
+        filePath,
+        file.content,
+        fileOptions,
+        findings,
+      );
+      return { filePath, findings };
+    } catch (error) {
+      return {
+        filePath,
+        findings: [],
+        error: `Scan failed: ${error instanceof Error ? error.message : "unknown error"}`,
+      };
+    }
+  }
+
+  const inFlight = new Map<number, Promise<[number, ScanResult<T>]>>();
+  let nextId = 0;
+  let walking = true;
+
+  try {
+    while (walking || inFlight.size > 0) {
+      while (walking && inFlight.size < Math.max(READ_AHEAD, workerCount)) {
+        const next = await files.next();
+        if (next.done) {
+          walking = false;
+          break;
+        }
+        const id = nextId++;
+        inFlight.set(
+          id,
+          scanOne(next.value).then((result) => [id, result]),
+        );
+      }
+
+      yield* unreadable.splice(0);
+      if (inFlight.size > 0) {
+        const [id, result] = await Promise.race(inFlight.values());
+        inFlight.delete(id);
+        yield result;
+      }
+    }
+  } finally {
+    await files.return(undefined);
+    await pool?.close();
+  }
+}
+
+/**
+ * Drain a scan stream into the results that have findings or errors,
+ * sorted by path so output does not depend on scheduling
+ */
+export async function collectResults<T extends Finding>(
+  stream: AsyncIterable<ScanResult<T>>,
+): Promise<ScanResult<T>[]> {
+  const results: ScanResult<T>[] = [];
+  for await (const result of stream) {
+    if (result.error || result.findings.length > 0) {
+      results.push(result);
+    }
+  }
+
+  return results.sort((a, b) => a.filePath.localeCompare(b.filePath));
+}
@@ -0,0 +1,175 @@
+/**
+ * Entropy detector - finds random-looking string literals that vendor
+ * patterns miss, e.g. const clientSecret = "q8Zr0..."
+ */
+
+import { EntropyOptions } from "./types";
+
+export interface EntropyRule {
+  readonly name: string;
+  readonly severity: "error" | "warning";
+  readonly message: string;
+  readonly fixSuggestion: string;
+}
+
+export const ENTROPY_RULE: EntropyRule = {
+  name: "High Entropy String",
+  severity: "warning",
+  message: "High-entropy string may be a secret",
+  fixSuggestion: "If this is a credential, move it to an environment variable",
+};
+
+export const DEFAULT_ENTROPY_OPTIONS: EntropyOptions = {
+  minLength: 20,
+  base64Threshold: 4.5,
+  hexThreshold: 3.0,
+};
+
+/** Findings at or above this confidence are reported as errors */
+export const HIGH_CONFIDENCE = 0.8;
+
+export interface EntropyMatch {
+  /** Literal contents without quotes */
+  readonly value: string;
+  /** 0-based index of the literal contents in the line */
+  readonly index: number;
+  readonly entropy: number;
+  readonly charset: "base64" | "hex";
+  readonly variableName?: string;
+  /** 0..1, higher when the entropy margin is large or the name is secret-like */
+  readonly confidence: number;
+}
+
+const STRING_LITERAL_REGEX = /(["'`])((?:\\.|(?!\1)[^\\])*)\1/g;
+const HEX_REGEX = /^[0-9a-fA-F]+$/;
+const BASE64_REGEX = /^[A-Za-z0-9+/=_-]+$/;
+const ASSIGNMENT_REGEX = /([A-Za-z_$][\w$-]*)["']?\s*(?:[:=]|:=|=>)\s*$/;
+
+// Words in variable names that suggest the value is a credential
+const SECRET_NAME_WORDS = new Set([
+  "secret",
+  "token",
+  "password",
+  "passwd",
+  "pwd",
+  "pass",
+  "credential",
+  "credentials",
+  "signing",
+  "private",
+  "auth",
+  "key",
+  "apikey",
+  "salt",
+]);
+
+// Known non-secret encodings (subresource integrity hashes, data URIs)
+const IGNORED_PREFIXES = ["sha1-", "sha256-", "sha384-", "sha512-", "data:"];
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (value.length === 0) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  counts.forEach((count) => {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  });
+
+  return entropy;
+}
+
+/**
+ * Check whether a variable or key name suggests a credential
+ */
+export function isSecretLikeName(name: string): boolean {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .some((word) => SECRET_NAME_WORDS.has(word));
+}
+
+function isPlaceholder(value: string): boolean {
+  return (
+    value.includes("FAKE_") ||
+    value.includes("YOUR_") ||
+    value.includes("example") ||
+    value.includes("placeholder") ||
+    value.includes("xxx") ||
+    value.includes("XXXX") ||
+    IGNORED_PREFIXES.some((prefix) => value.startsWith(prefix))
+  );
+}
+
+/**
+ * Find high-entropy string literals in a line
+ */
+export function detectHighEntropyStrings(
+  line: string,
+  options: EntropyOptions = DEFAULT_ENTROPY_OPTIONS,
+): EntropyMatch[] {
+  const matches: EntropyMatch[] = [];
+
+  for (const literal of line.matchAll(STRING_LITERAL_REGEX)) {
+    const value = literal[2];
+    const index = (literal.index || 0) + 1;
+
+    // Random tokens mix letters and digits; skip words and plain numbers
+    if (
+      value.length < options.minLength ||
+      isPlaceholder(value) ||
+      !/[0-9]/.test(value) ||
+      !/[A-Za-z]/.test(value)
+    ) {
+      continue;
+    }
+
+    const charset = HEX_REGEX.test(value)
+      ? "hex"
+      : BASE64_REGEX.test(value)
+        ? "base64"
+        : null;
+    if (!charset) {
+      continue;
+    }
+
+    const variableName = ASSIGNMENT_REGEX.exec(line.slice(0, index - 1))?.[1];
+    const named = variableName !== undefined && isSecretLikeName(variableName);
+
+    // A secret-like name lowers the bar by half a bit
+    const threshold =
+      (charset === "hex" ? options.hexThreshold : options.base64Threshold) -
+      (named ? 0.5 : 0);
+    const entropy = shannonEntropy(value);
+
+    if (entropy < threshold) {
+      continue;
+    }
+
+    const confidence = Math.min(
+      1,
+      0.5 + (entropy - threshold) / 2 + (named ? 0.25 : 0),
+    );
+
+    matches.push({
+      value,
+      index,
+      entropy,
+      charset,
+      variableName,
+      confidence: Math.round(confidence * 100) / 100,
+    });
+  }
+
+  return matches;
+}
@@ -0,0 +1,347 @@
+/**
+ * Env hygiene checks
+ * Looks at the .env and .env.* files in a project: are they gitignored, committed or
+ * world-readable, do .env and .env.example declare the same keys, does the
+ * example hold real values, and is every variable the code reads declared.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ResolvedConfig } from "../config/types";
+import { getRepoRoot, runGit, splitNul } from "../git/git";
+import { isEnvFile } from "./client-exposure";
+import { fileScanOptions, walkOptions } from "./detector";
+import { isSecretLikeName } from "./entropy";
+import { PATTERNS } from "./patterns";
+import { effectiveSeverity, passesSeverityFilter } from "./rules";
+import { Finding, ScanResult } from "./types";
+import { walkFiles } from "./walker";
+
+export interface EnvRule {
+  readonly name: string;
+  readonly severity: "error" | "warning";
+  readonly message: string;
+  readonly fixSuggestion: string;
+}
+
+export const ENV_NOT_IGNORED_RULE: EnvRule = {
+  name: "Env File Not Ignored",
+  severity: "error",
+  message: "Env file is not covered by .gitignore",
+  fixSuggestion: "Add the file to .gitignore",
+};
+
+export const ENV_COMMITTED_RULE: EnvRule = {
+  name: "Env File Committed",
+  severity: "error",
+  message: "Env file is tracked by git",
+  fixSuggestion:
+    "Run git rm --cached on the file, add it to .gitignore and rotate its secrets",
+};
+
+export const ENV_WORLD_READABLE_RULE: EnvRule = {
+  name: "Env File World-Readable",
+  severity: "warning",
+  message: "Env file can be read by every user on this machine",
+  fixSuggestion: "Restrict permissions, e.g. chmod 600",
+};
+
+export const ENV_KEY_MISSING_FROM_EXAMPLE_RULE: EnvRule = {
+  name: "Env Key Missing from Example",
+  severity: "warning",
+  message: "Key is set but not documented in the example env file",
+  fixSuggestion: "Add the key with a placeholder value to the example file",
+};
+
+export const ENV_KEY_NOT_SET_RULE: EnvRule = {
+  name: "Env Key Not Set",
+  severity: "warning",
+  message: "Key from the example env file is not set in any local env file",
+  fixSuggestion: "Set the key in .env, or remove it from the example",
+};
+
+export const ENV_EXAMPLE_REAL_VALUE_RULE: EnvRule = {
+  name: "Real Value in Env Example",
+  severity: "error",
+  message: "Example env file holds what looks like a real value",
+  fixSuggestion: "Replace the value with a placeholder and rotate the secret",
+};
+
+export const UNDECLARED_ENV_VAR_RULE: EnvRule = {
+  name: "Undeclared Env Var",
+  severity: "warning",
+  message: "Code reads an environment variable that no env file declares",
+  fixSuggestion: "Add the key to .env.example",
+};
+
+export const ENV_CHECK_RULES: readonly EnvRule[] = [
+  ENV_NOT_IGNORED_RULE,
+  ENV_COMMITTED_RULE,
+  ENV_WORLD_READABLE_RULE,
+  ENV_KEY_MISSING_FROM_EXAMPLE_RULE,
+  ENV_KEY_NOT_SET_RULE,
+  ENV_EXAMPLE_REAL_VALUE_RULE,
+  UNDECLARED_ENV_VAR_RULE,
+];
+
+interface EnvEntry {
+  readonly key: string;
+  readonly value: string;
+  readonly lineNumber: number;
+  readonly column: number;
+}
+
+interface EnvFile {
+  readonly filePath: string;
+  readonly name: string;
+  /** .env.example and friends, meant to be committed */
+  readonly example: boolean;
+  readonly entries: readonly EnvEntry[];
+}
+
+const EXAMPLE_SUFFIXES = [".example", ".sample", ".template", ".dist"];
+const CODE_EXTENSIONS = [
+  ".js",
+  ".ts",
+  ".jsx",
+  ".tsx",
+  ".mjs",
+  ".cjs",
+  ".vue",
+  ".svelte",
+  ".py",
+];
+const ENV_LINE_REGEX = /^(\s*(?:export\s+)?)([A-Za-z_][A-Za-z0-9_]*)\s*=(.*)$/;
+// process.env.X, import.meta.env.X, Deno.env.get("X"), os.environ["X"], ...
+const ENV_USAGE_REGEX =
+  /(?:process\.env|import\.meta\.env)(?:\.([A-Z_][A-Z0-9_]*)|\[\s*["']([A-Z_][A-Z0-9_]*)["']\s*\])|(?:Deno\.env\.get|os\.getenv|os\.environ\.get)\(\s*["']([A-Z_][A-Z0-9_]*)["']|os\.environ\[\s*["']([A-Z_][A-Z0-9_]*)["']\s*\]/g;
+// Set by the runtime or the bundler rather than an env file
+const BUILT_IN_VARS = new Set([
+  "NODE_ENV",
+  "CI",
+  "HOME",
+  "PATH",
+  "PWD",
+  "TZ",
+  "MODE",
+  "DEV",
+  "PROD",
+  "SSR",
+  "BASE_URL",
+]);
+const PLACEHOLDER_REGEX =
+  /^(?:|true|false|\d+|your[_-].*|my[_-].*|change.?me.*|replace.?me.*|<.*>|\[.*\]|\{\{.*\}\}|\$\{.*\}|\*+|\.{3}|x{3,}.*|todo|none|null|secret|password)$|_here$|example|placeholder|localhost|127\.0\.0\.1/i;
+
+function parseEnvEntries(content: string): EnvEntry[] {
+  return content.split("\n").flatMap((line, index) => {
+    const match = ENV_LINE_REGEX.exec(line);
+    if (!match) {
+      return [];
+    }
+    const value = match[3].trim().replace(/^(["'])(.*)\1$/, "$2");
+    return [
+      {
+        key: match[2],
+        value,
+        lineNumber: index + 1,
+        column: match[1].length + 1,
+      },
+    ];
+  });
+}
+
+function readEnvFiles(rootDir: string): EnvFile[] {
+  return fs
+    .readdirSync(rootDir, { withFileTypes: true })
+    .filter((entry) => entry.isFile() && isEnvFile(entry.name))
+    .map((entry) => {
+      const filePath = path.join(rootDir, entry.name);
+      return {
+        filePath,
+        name: entry.name,
+        example: EXAMPLE_SUFFIXES.some((suffix) => entry.name.endsWith(suffix)),
+        entries: parseEnvEntries(fs.readFileSync(filePath, "utf8")),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function looksReal(entry: EnvEntry): boolean {
+  if (PLACEHOLDER_REGEX.test(entry.value) || entry.value.includes("FAKE_")) {
+    return false;
+  }
+
+  return (
+    PATTERNS.some((pattern) => {
+      pattern.regex.lastIndex = 0;
+      return pattern.regex.test(`${entry.key}="${entry.value}"`);
+    }) ||
+    (isSecretLikeName(entry.key) && entry.value.length >= 8)
+  );
+}
+
+/**
+ * Env files git tracks, and those it does not ignore; null outside a repo
+ */
+function gitStatus(
+  rootDir: string,
+  files: readonly EnvFile[],
+): { tracked: Set<string>; ignored: Set<string> } | null {
+  if (files.length === 0) {
+    return null;
+  }
+  try {
+    getRepoRoot(rootDir);
+  } catch {
+    return null;
+  }
+
+  const names = files.map((file) => file.name);
+  const tracked = new Set(
+    splitNul(runGit(["ls-files", "-z", "--", ...names], rootDir)),
+  );
+
+  let ignored: string[];
+  try {
+    ignored = runGit(["check-ignore", "--", ...names], rootDir)
+      .split("\n")
+      .filter(Boolean);
+  } catch {
+    // check-ignore exits non-zero when nothing is ignored
+    ignored = [];
+  }
+
+  return { tracked, ignored: new Set(ignored) };
+}
+
+/**
+ * Run every env hygiene check on a project directory
+ */
+export async function checkEnv(
+  rootDir: string,
+  config?: ResolvedConfig,
+): Promise<ScanResult[]> {
+  const findings: Finding[] = [];
+
+  const report = (
+    rule: EnvRule,
+    filePath: string,
+    location: { lineNumber: number; column: number },
+    match: string,
+    detail?: string,
+  ): void => {
+    const options = fileScanOptions({ config }, filePath);
+    const severity = effectiveSeverity(rule.name, rule.severity, options.rules);
+    if (!severity || !passesSeverityFilter(severity, options.severity)) {
+      return;
+    }
+
+    findings.push({
+      filePath,
+      lineNumber: location.lineNumber,
+      column: location.column,
+      match,
+      pattern: rule.name,
+      severity,
+      message: detail ? `${rule.message} (${detail})` : rule.message,
+      fixSuggestion: rule.fixSuggestion,
+    });
+  };
+  const fileStart = { lineNumber: 1, column: 1 };
+
+  const envFiles = readEnvFiles(rootDir);
+  const localFiles = envFiles.filter((file) => !file.example);
+  const exampleFiles = envFiles.filter((file) => file.example);
+
+  const git = gitStatus(rootDir, localFiles);
+  localFiles.forEach((file) => {
+    if (git?.tracked.has(file.name)) {
+      report(ENV_COMMITTED_RULE, file.filePath, fileStart, file.name);
+    } else if (git && !git.ignored.has(file.name)) {
+      report(ENV_NOT_IGNORED_RULE, file.filePath, fileStart, file.name);
+    }
+
+    if (
+      process.platform !== "win32" &&
+      (fs.statSync(file.filePath).mode & 0o004) !== 0
+    ) {
+      report(ENV_WORLD_READABLE_RULE, file.filePath, fileStart, file.name);
+    }
+  });
+
+  const keysIn = (files: readonly EnvFile[]) =>
+    new Set(files.flatMap((file) => file.entries.map((entry) => entry.key)));
+  const localKeys = keysIn(localFiles);
+  const exampleKeys = keysIn(exampleFiles);
+
+  if (localFiles.length > 0 && exampleFiles.length > 0) {
+    localFiles.forEach((file) =>
+      file.entries
+        .filter((entry) => !exampleKeys.has(entry.key))
+        .forEach((entry) =>
+          report(
+            ENV_KEY_MISSING_FROM_EXAMPLE_RULE,
+            file.filePath,
+            entry,
+            entry.key,
+          ),
+        ),
+    );
+    exampleFiles.forEach((file) =>
+      file.entries
+        .filter((entry) => !localKeys.has(entry.key))
+        .forEach((entry) =>
+          report(ENV_KEY_NOT_SET_RULE, file.filePath, entry, entry.key),
+        ),
+    );
+  }
+
+  exampleFiles.forEach((file) =>
+    file.entries
+      .filter(looksReal)
+      .forEach((entry) =>
+        report(ENV_EXAMPLE_REAL_VALUE_RULE, file.filePath, entry, entry.key),
+      ),
+  );
+
+  const declared = new Set([...localKeys, ...exampleKeys]);
+  const codeFiles = walkFiles(
+    walkOptions({ path: rootDir, extensions: CODE_EXTENSIONS, config }),
+  );
+  for await (const filePath of codeFiles) {
+    const reported = new Set<string>();
+    const content = await fs.promises.readFile(filePath, "utf8");
+    content.split("\n").forEach((line, index) => {
+      for (const usage of line.matchAll(ENV_USAGE_REGEX)) {
+        const name = usage.slice(1).find(Boolean) as string;
+        if (
+          declared.has(name) ||
+          BUILT_IN_VARS.has(name) ||
+          reported.has(name)
+        ) {
+          continue;
+        }
+        reported.add(name);
+        report(
+          UNDECLARED_ENV_VAR_RULE,
+          filePath,
+          { lineNumber: index + 1, column: (usage.index ?? 0) + 1 },
+          usage[0],
+          name,
+        );
+      }
+    });
+  }
+
+  const byFile = new Map<string, Finding[]>();
+  findings.forEach((finding) => {
+    byFile.set(finding.filePath, [
+      ...(byFile.get(finding.filePath) ?? []),
+      finding,
+    ]);
+  });
+  return Array.from(byFile, ([filePath, fileFindings]) => ({
+    filePath,
+    findings: fileFindings.sort((a, b) => a.lineNumber - b.lineNumber),
+  }));
+}
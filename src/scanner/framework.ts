@@ -0,0 +1,124 @@
+/**
+ * Framework detection
+ * Reads the nearest package.json (or deno.json) to tell which runtime and
+ * framework a file belongs to, and whether it ends up in browser code.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export type Framework = "next" | "vite" | "cra" | "deno" | "node";
+
+/** Variables with these prefixes are inlined into client bundles */
+export const PUBLIC_ENV_PREFIXES: Readonly<Partial<Record<Framework, string>>> =
+  {
+    next: "NEXT_PUBLIC_",
+    vite: "VITE_",
+    cra: "REACT_APP_",
+  };
+
+export interface Project {
+  readonly framework: Framework;
+  /** Directory of the manifest the framework was read from */
+  readonly dir: string;
+}
+
+const DENO_CONFIGS = ["deno.json", "deno.jsonc"];
+// Dependencies that identify a framework, checked in order
+const FRAMEWORK_DEPENDENCIES: ReadonlyArray<[string, Framework]> = [
+  ["next", "next"],
+  ["vite", "vite"],
+  ["react-scripts", "cra"],
+];
+// Path segments of server-only code in client-side projects
+const SERVER_SEGMENTS = ["server", "api", "functions", "scripts"];
+const CONFIG_FILE_REGEX = /\.config\.[cm]?[jt]s$/;
+const USE_CLIENT_REGEX =
+  /^(?:\s|\/\/[^\n]*\n|\/\*[\s\S]*?\*\/)*["']use client["']/;
+
+function readDependencies(packagePath: string): string[] {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(packagePath, "utf8"));
+    return [
+      ...Object.keys(pkg.dependencies ?? {}),
+      ...Object.keys(pkg.devDependencies ?? {}),
+    ];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Framework and project directory of a file, from the nearest project
+ * manifest at or below rootDir
+ */
+export function detectProject(filePath: string, rootDir: string): Project {
+  const root = path.resolve(rootDir);
+  let dir = path.dirname(path.resolve(filePath));
+
+  for (;;) {
+    if (DENO_CONFIGS.some((name) => fs.existsSync(path.join(dir, name)))) {
+      return { framework: "deno", dir };
+    }
+
+    const packagePath = path.join(dir, "package.json");
+    if (fs.existsSync(packagePath)) {
+      const dependencies = readDependencies(packagePath);
+      const match = FRAMEWORK_DEPENDENCIES.find(([dependency]) =>
+        dependencies.includes(dependency),
+      );
+      return { framework: match ? match[1] : "node", dir };
+    }
+
+    const parent = path.dirname(dir);
+    if (dir === root || parent === dir || !parent.startsWith(root)) {
+      return { framework: "node", dir: root };
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Whether a file is bundled for the browser. Next.js: "use client" modules,
+ * pages/ outside pages/api and components/. Vite and Create React App: src/
+ * outside server directories, except config files.
+ */
+export function isClientCode(
+  filePath: string,
+  content: string,
+  project: Project,
+): boolean {
+  const segments = path
+    .relative(project.dir, path.resolve(filePath))
+    .split(path.sep);
+
+  if (project.framework === "next") {
+    if (USE_CLIENT_REGEX.test(content)) {
+      return true;
+    }
+    const pagesIndex = segments.lastIndexOf("pages");
+    return (
+      segments.includes("components") ||
+      (pagesIndex >= 0 && segments[pagesIndex + 1] !== "api")
+    );
+  }
+
+  if (project.framework === "vite" || project.framework === "cra") {
+    return (
+      segments[0] === "src" &&
+      !segments.some((segment) => SERVER_SEGMENTS.includes(segment)) &&
+      !CONFIG_FILE_REGEX.test(path.basename(filePath))
+    );
+  }
+
+  return false;
+}
+
+/**
+ * The public prefix a variable name starts with, if any
+ */
+export function publicEnvPrefix(name: string): string | undefined {
+  return Object.values(PUBLIC_ENV_PREFIXES).find((prefix) =>
+    name.startsWith(prefix),
+  );
+}
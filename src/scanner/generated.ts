@@ -0,0 +1,76 @@
+/**
+ * Generated content detection
+ * Lockfiles, generated code and minified files are full of hashes and
+ * random-looking strings nobody wrote by hand, so scans skip them. Only
+ * JavaScript and CSS are judged by content: a one-line JSON key file or a
+ * config with a "DO NOT EDIT" header can still hold real secrets.
+ */
+
+import * as path from "path";
+import { SkipReason } from "./types";
+
+const LOCKFILE_NAMES = [
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lock",
+  "deno.lock",
+  "composer.lock",
+  "Gemfile.lock",
+  "Cargo.lock",
+  "poetry.lock",
+  "Pipfile.lock",
+  "go.sum",
+];
+const CONTENT_CHECKED_EXTENSIONS = [
+  ".js",
+  ".mjs",
+  ".cjs",
+  ".jsx",
+  ".ts",
+  ".mts",
+  ".cts",
+  ".tsx",
+  ".css",
+];
+const MINIFIED_NAME_REGEX = /\.min\.[cm]?[jt]s$|\.min\.css$|\.bundle\.js$/;
+// Markers code generators put in a header comment, e.g. Go's
+// "Code generated by X. DO NOT EDIT."
+const GENERATED_MARKER_REGEX = /@generated\b|\bDO NOT EDIT\b/;
+const HEADER_LINES = 5;
+const MINIFIED_LINE_LENGTH = 1000;
+const MINIFIED_AVERAGE_LINE_LENGTH = 300;
+
+/**
+ * Why a file's content should not be scanned, or null to scan it
+ */
+export function generatedContentReason(
+  filePath: string,
+  content: string,
+): SkipReason | null {
+  const name = path.basename(filePath);
+  if (LOCKFILE_NAMES.includes(name)) {
+    return "lockfile";
+  }
+  if (MINIFIED_NAME_REGEX.test(name)) {
+    return "minified";
+  }
+
+  if (!CONTENT_CHECKED_EXTENSIONS.includes(path.extname(name).toLowerCase())) {
+    return null;
+  }
+
+  const lines = content.split("\n");
+  if (GENERATED_MARKER_REGEX.test(lines.slice(0, HEADER_LINES).join("\n"))) {
+    return "generated";
+  }
+  if (
+    content.length / lines.length > MINIFIED_AVERAGE_LINE_LENGTH &&
+    lines.some((line) => line.length > MINIFIED_LINE_LENGTH)
+  ) {
+    return "minified";
+  }
+
+  return null;
+}
@@ -0,0 +1,137 @@
+/**
+ * Ignore files - .gitignore, .git/info/exclude and .vibecurbignore
+ * Patterns follow .gitignore syntax: `#` comments, `!` negation, a trailing
+ * slash for directories only, and patterns with a slash anchored to the
+ * directory of the file that holds them.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { globToRegExp } from "../utils/glob";
+
+export const IGNORE_FILE_NAME = ".vibecurbignore";
+
+/** Read in every directory the walker visits */
+const IGNORE_FILE_NAMES = [".gitignore", IGNORE_FILE_NAME];
+
+export interface IgnoreRule {
+  /** Directory the pattern is relative to */
+  readonly base: string;
+  readonly regex: RegExp;
+  /** `!pattern`: re-include what earlier rules ignored */
+  readonly negate: boolean;
+  /** `pattern/`: only match directories */
+  readonly dirOnly: boolean;
+}
+
+/**
+ * Parse the lines of an ignore file whose patterns are relative to base
+ */
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  return content.split(/\r?\n/).flatMap((raw) => {
+    let line = raw.trimEnd();
+    if (line === "" || line.startsWith("#")) {
+      return [];
+    }
+
+    const negate = line.startsWith("!");
+    if (negate) {
+      line = line.slice(1);
+    } else if (line.startsWith("\\#") || line.startsWith("\\!")) {
+      line = line.slice(1);
+    }
+
+    const dirOnly = line.endsWith("/");
+    if (dirOnly) {
+      line = line.slice(0, -1);
+    }
+    // A slash anywhere but the end anchors the pattern to its directory
+    if (line.includes("/") && !line.startsWith("/")) {
+      line = `/${line}`;
+    }
+
+    return line ? [{ base, regex: globToRegExp(line), negate, dirOnly }] : [];
+  });
+}
+
+async function readRules(
+  filePath: string,
+  base: string,
+): Promise<IgnoreRule[]> {
+  try {
+    return parseIgnoreFile(await fs.promises.readFile(filePath, "utf8"), base);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Rules from the ignore files in one directory
+ */
+export async function readIgnoreRules(dir: string): Promise<IgnoreRule[]> {
+  const rules = await Promise.all(
+    IGNORE_FILE_NAMES.map((name) => readRules(path.join(dir, name), dir)),
+  );
+  return rules.flat();
+}
+
+function findRepoRoot(dir: string): string | null {
+  for (let current = dir; ; current = path.dirname(current)) {
+    if (fs.existsSync(path.join(current, ".git"))) {
+      return current;
+    }
+    if (path.dirname(current) === current) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Rules that apply to a directory from above it: .git/info/exclude and the
+ * ignore files between the repository root and the directory
+ */
+export async function inheritedIgnoreRules(dir: string): Promise<IgnoreRule[]> {
+  const root = path.resolve(dir);
+  const repoRoot = findRepoRoot(root);
+  if (!repoRoot) {
+    return [];
+  }
+
+  const ancestors: string[] = [];
+  for (let current = root; current !== repoRoot;) {
+    current = path.dirname(current);
+    ancestors.unshift(current);
+  }
+
+  const rules = await Promise.all([
+    readRules(path.join(repoRoot, ".git", "info", "exclude"), repoRoot),
+    ...ancestors.map(readIgnoreRules),
+  ]);
+  return rules.flat();
+}
+
+/**
+ * Whether the last rule matching a path ignores it
+ */
+export function isIgnored(
+  fullPath: string,
+  isDirectory: boolean,
+  rules: readonly IgnoreRule[],
+): boolean {
+  let ignored = false;
+
+  rules.forEach((rule) => {
+    if (rule.dirOnly && !isDirectory) {
+      return;
+    }
+    const relative = path.relative(rule.base, fullPath);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      return;
+    }
+    if (rule.regex.test(relative.split(path.sep).join("/"))) {
+      ignored = !rule.negate;
+    }
+  });
+
+  return ignored;
+}
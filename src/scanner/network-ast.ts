@@ -0,0 +1,486 @@
+/**
+ * Parser-backed network analysis for JavaScript and TypeScript
+ * Understands calls and object literals that span lines, and whether a
+ * request's promise is handled by .catch or an enclosing try/catch.
+ */
+
+import * as path from "path";
+import * as ts from "typescript";
+import { DATA_FLOW_RULES } from "./network-patterns";
+import { createTaintTracker } from "./taint";
+import { DataFlowStep } from "./types";
+
+export interface AstMatch {
+  /** Name of the network pattern or check this match belongs to */
+  readonly rule: string;
+  readonly lineNumber: number;
+  readonly column: number;
+  readonly match: string;
+  /** Source-to-sink path for data-flow findings */
+  readonly dataFlow?: readonly DataFlowStep[];
+}
+
+/** Rules the analyzer replaces; their per-line regexes are not run */
+export const AST_RULES: ReadonlySet<string> = new Set([
+  "Console Log with User Object",
+  "Console Log with API Response",
+  "Console Log with Authorization Header",
+  "Fetch with Hardcoded Authorization",
+  "Axios with Hardcoded Authorization",
+  "API Key in Query Parameters",
+  "Return Full User Object in Response",
+  "Return Database Document Directly",
+  "Error Response with Stack Trace",
+  "Console Log in Error Handler",
+  "Axios Instance with Hardcoded Config",
+  "Debugger Statement",
+  "Missing Error Handler",
+  "Raw Error in Response",
+  ...DATA_FLOW_RULES.map((rule) => rule.name),
+]);
+
+/** Files the analyzer parses, and so the files scan-network walks */
+export const AST_EXTENSIONS: readonly string[] = [
+  ".js",
+  ".ts",
+  ".jsx",
+  ".tsx",
+  ".mjs",
+  ".cjs",
+];
+
+const CONSOLE_CALL = /^console\.(log|debug|info|warn|error)$/;
+const FETCH_CALL = /^(?:(?:window|globalThis)\.)?fetch$/;
+const AXIOS_CALL =
+  /^axios(?:\.(get|post|put|delete|patch|head|options|request))?$/;
+const LOGGER_CALL =
+  /^(?:this\.)?(?:logger|log|winston|pino)\.(info|warn|error|debug|log|trace|fatal)$/;
+const RESPONSE_CALL = /^res(?:\.(?:status|sendStatus)\(\))?\.(json|send)$/;
+const QUERY_SECRET = /\?.*(?:api[_-]?key|token|auth)=/i;
+const ERROR_NAMES = ["error", "err", "e"];
+
+function scriptKind(filePath: string): ts.ScriptKind {
+  const ext = filePath.toLowerCase().split(".").pop();
+  return ext === "tsx"
+    ? ts.ScriptKind.TSX
+    : ext === "jsx"
+      ? ts.ScriptKind.JSX
+      : ext === "ts"
+        ? ts.ScriptKind.TS
+        : ts.ScriptKind.JS;
+}
+
+/**
+ * Dotted name of a callee, e.g. "axios.get" or "res.status().json"
+ */
+function calleeName(node: ts.Expression): string {
+  if (ts.isIdentifier(node)) {
+    return node.text;
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    return `${calleeName(node.expression)}.${node.name.text}`;
+  }
+  if (ts.isCallExpression(node)) {
+    return `${calleeName(node.expression)}()`;
+  }
+  return "?";
+}
+
+/**
+ * Last name in an identifier or property access, e.g. "user" for req.user
+ */
+function lastName(node: ts.Node): string | null {
+  if (ts.isIdentifier(node)) {
+    return node.text;
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    return node.name.text;
+  }
+  return null;
+}
+
+/**
+ * Leftmost identifier of a property access, e.g. "err" for err.message
+ */
+function rootName(node: ts.Node): string | null {
+  if (ts.isIdentifier(node)) {
+    return node.text;
+  }
+  if (ts.isPropertyAccessExpression(node)) {
+    return rootName(node.expression);
+  }
+  return null;
+}
+
+/**
+ * All identifier names inside a node, including property names
+ */
+function identifierNames(node: ts.Node): string[] {
+  const names: string[] = [];
+
+  function visit(child: ts.Node): void {
+    if (ts.isIdentifier(child)) {
+      names.push(child.text);
+    }
+    ts.forEachChild(child, visit);
+  }
+
+  visit(node);
+  return names;
+}
+
+function isHardcodedString(node: ts.Node | undefined): boolean {
+  return (
+    node !== undefined &&
+    (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))
+  );
+}
+
+function propertyName(property: ts.ObjectLiteralElementLike): string | null {
+  const name = property.name;
+  if (!name) {
+    return null;
+  }
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) {
+    return name.text;
+  }
+  return null;
+}
+
+/**
+ * Find a property of an object literal by name, ignoring case
+ */
+function findProperty(
+  node: ts.Node | undefined,
+  name: string,
+): ts.ObjectLiteralElementLike | undefined {
+  if (!node || !ts.isObjectLiteralExpression(node)) {
+    return undefined;
+  }
+  return node.properties.find(
+    (p) => propertyName(p)?.toLowerCase() === name.toLowerCase(),
+  );
+}
+
+function propertyValue(
+  property: ts.ObjectLiteralElementLike | undefined,
+): ts.Node | undefined {
+  if (!property) {
+    return undefined;
+  }
+  if (ts.isPropertyAssignment(property)) {
+    return property.initializer;
+  }
+  if (ts.isShorthandPropertyAssignment(property)) {
+    return property.name;
+  }
+  return undefined;
+}
+
+/**
+ * Authorization property with a literal value in { headers: { ... } }
+ */
+function hardcodedAuthorization(
+  options: ts.Node | undefined,
+): ts.ObjectLiteralElementLike | undefined {
+  const headers = propertyValue(findProperty(options, "headers"));
+  const authorization = findProperty(headers, "authorization");
+
+  return isHardcodedString(propertyValue(authorization))
+    ? authorization
+    : undefined;
+}
+
+/**
+ * Nearest enclosing catch clause in the same function
+ */
+function enclosingCatch(node: ts.Node): ts.CatchClause | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isCatchClause(current)) {
+      return current;
+    }
+    if (ts.isFunctionLike(current)) {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a node is inside the try block of a try/catch in the same function
+ */
+function isInsideTry(node: ts.Node): boolean {
+  for (
+    let child: ts.Node = node, current = node.parent;
+    current;
+    child = current, current = current.parent
+  ) {
+    if (
+      ts.isTryStatement(current) &&
+      current.tryBlock === child &&
+      current.catchClause
+    ) {
+      return true;
+    }
+    if (ts.isFunctionLike(current)) {
+      return false;
+    }
+  }
+  return false;
+}
+
+function isErrorName(node: ts.Node, catchClause?: ts.CatchClause): boolean {
+  const name = rootName(node);
+  const caught = catchClause?.variableDeclaration?.name;
+
+  return (
+    name !== null &&
+    (ERROR_NAMES.includes(name) ||
+      (caught !== undefined && ts.isIdentifier(caught) && caught.text === name))
+  );
+}
+
+/**
+ * Check whether the promise returned by a request call is left unhandled:
+ * a .then chain without .catch, or an await outside try/catch
+ */
+function isUnhandledRequest(call: ts.CallExpression): boolean {
+  let outer: ts.Expression = call;
+  const methods: string[] = [];
+
+  // Walk up fetch(...).then(...).catch(...)
+  while (
+    ts.isPropertyAccessExpression(outer.parent) &&
+    ts.isCallExpression(outer.parent.parent) &&
+    outer.parent.parent.expression === outer.parent
+  ) {
+    const method = outer.parent.name.text;
+    methods.push(method);
+    if (method === "then" && outer.parent.parent.arguments.length > 1) {
+      methods.push("catch");
+    }
+    outer = outer.parent.parent;
+  }
+
+  if (methods.includes("catch")) {
+    return false;
+  }
+
+  let parent = outer.parent;
+  while (ts.isParenthesizedExpression(parent)) {
+    parent = parent.parent;
+  }
+
+  if (ts.isAwaitExpression(parent)) {
+    return !isInsideTry(parent);
+  }
+
+  // Returned or stored promises are handled by whoever receives them
+  return methods.includes("then");
+}
+
+/**
+ * Analyze a JavaScript or TypeScript file, or return null for other files
+ */
+export function analyzeNetworkAst(
+  content: string,
+  filePath: string,
+): AstMatch[] | null {
+  if (!AST_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+    return null;
+  }
+
+  const source = ts.createSourceFile(
+    filePath,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind(filePath),
+  );
+  const matches: AstMatch[] = [];
+  const tracker = createTaintTracker(source);
+
+  function report(
+    rule: string,
+    node: ts.Node,
+    dataFlow?: readonly DataFlowStep[],
+  ): void {
+    const { line, character } = source.getLineAndCharacterOfPosition(
+      node.getStart(source),
+    );
+    matches.push({
+      rule,
+      lineNumber: line + 1,
+      column: character + 1,
+      match: node.getText(source).replace(/\s+/g, " ").substring(0, 100),
+      dataFlow,
+    });
+  }
+
+  /**
+   * Report a tainted argument reaching a sink; returns the rule reported
+   */
+  function checkDataFlow(
+    call: ts.CallExpression,
+    args: readonly ts.Expression[],
+    sink: "response" | "console" | "logger",
+  ): string | null {
+    for (const arg of args) {
+      const taint = tracker.taintOf(arg);
+      if (!taint) {
+        continue;
+      }
+
+      const rule =
+        taint.kind === "secret"
+          ? sink === "response"
+            ? "Secret in Response"
+            : "Secret in Log"
+          : sink === "response"
+            ? "Return Full User Object in Response"
+            : sink === "console"
+              ? "Console Log with User Object"
+              : "Logger Call with User Object";
+      report(rule, call, tracker.pathTo(taint, call));
+      return rule;
+    }
+    return null;
+  }
+
+  function checkConsole(call: ts.CallExpression, method: string): void {
+    const names = call.arguments.flatMap(identifierNames);
+    const last = call.arguments[call.arguments.length - 1];
+    const flowRule = checkDataFlow(call, call.arguments, "console");
+
+    if (
+      flowRule !== "Console Log with User Object" &&
+      names.some((name) => /user/i.test(name))
+    ) {
+      report("Console Log with User Object", call);
+    }
+    if (
+      ["log", "debug", "info"].includes(method) &&
+      last &&
+      /^(response|res|data)$/i.test(lastName(last) ?? "")
+    ) {
+      report("Console Log with API Response", call);
+    }
+    if (names.some((name) => /authorization|auth|token|header/i.test(name))) {
+      report("Console Log with Authorization Header", call);
+    }
+
+    const catchClause = enclosingCatch(call);
+    if (
+      catchClause &&
+      ["log", "error"].includes(method) &&
+      call.arguments[0] &&
+      isErrorName(call.arguments[0], catchClause)
+    ) {
+      report("Console Log in Error Handler", call);
+    }
+  }
+
+  function checkRequest(
+    call: ts.CallExpression,
+    authorizationRule: string,
+  ): void {
+    const [url] = call.arguments;
+    if (
+      url &&
+      (ts.isStringLiteral(url) || ts.isTemplateLiteral(url)) &&
+      QUERY_SECRET.test(url.getText(source))
+    ) {
+      report("API Key in Query Parameters", url);
+    }
+
+    call.arguments.forEach((arg) => {
+      const authorization = hardcodedAuthorization(arg);
+      if (authorization) {
+        report(authorizationRule, authorization);
+      }
+    });
+
+    if (isUnhandledRequest(call)) {
+      report("Missing Error Handler", call);
+    }
+  }
+
+  function checkResponse(call: ts.CallExpression, name: string): void {
+    const [body] = call.arguments;
+    if (!body) {
+      return;
+    }
+
+    // Tracked data wins over the name-based heuristics below
+    const flowRule = checkDataFlow(call, [body], "response");
+
+    const user = propertyValue(findProperty(body, "user"));
+    if (
+      !flowRule &&
+      user &&
+      /^(user|req\.user|doc)/.test(user.getText(source))
+    ) {
+      report("Return Full User Object in Response", user.parent);
+    }
+
+    if (
+      !flowRule &&
+      /^(doc|document|result|data)$/i.test(lastName(body) ?? "")
+    ) {
+      report("Return Database Document Directly", call);
+    }
+
+    if (ts.isIdentifier(body) && isErrorName(body, enclosingCatch(call))) {
+      report("Raw Error in Response", call);
+    }
+
+    if (
+      name.includes("()") &&
+      ts.isObjectLiteralExpression(body) &&
+      identifierNames(body).some((id) => /error|stack|message/i.test(id))
+    ) {
+      report("Error Response with Stack Trace", call);
+    }
+  }
+
+  function visit(node: ts.Node): void {
+    tracker.record(node);
+
+    if (ts.isDebuggerStatement(node)) {
+      report("Debugger Statement", node);
+    }
+
+    if (ts.isCallExpression(node)) {
+      const name = calleeName(node.expression);
+      const consoleCall = CONSOLE_CALL.exec(name);
+
+      if (consoleCall) {
+        checkConsole(node, consoleCall[1]);
+      } else if (FETCH_CALL.test(name)) {
+        checkRequest(node, "Fetch with Hardcoded Authorization");
+      } else if (name === "axios.create") {
+        const baseUrl =
+          propertyValue(findProperty(node.arguments[0], "baseURL")) ??
+          propertyValue(findProperty(node.arguments[0], "url"));
+        if (
+          baseUrl &&
+          isHardcodedString(baseUrl) &&
+          /api|internal|admin/i.test(baseUrl.getText(source))
+        ) {
+          report("Axios Instance with Hardcoded Config", baseUrl.parent);
+        }
+      } else if (AXIOS_CALL.test(name)) {
+        checkRequest(node, "Axios with Hardcoded Authorization");
+      } else if (RESPONSE_CALL.test(name)) {
+        checkResponse(node, name);
+      } else if (LOGGER_CALL.test(name)) {
+        checkDataFlow(node, node.arguments, "logger");
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  }
+
+  visit(source);
+  return matches;
+}
@@ -4,78 +4,220 @@
  */
 
 import * as fs from "fs";
-import { NETWORK_PATTERNS, NETWORK_SECURITY_CHECKS } from "./network-patterns";
-import { Finding } from "./types";
+import { fileScanOptions, scanTextWith, walkOptions } from "./detector";
+import { collectResults, scanFiles } from "./engine";
+import { analyzeNetworkAst, AST_EXTENSIONS, AST_RULES } from "./network-ast";
+import {
+  DATA_FLOW_RULES,
+  NETWORK_PATTERNS,
+  NETWORK_SECURITY_CHECKS,
+} from "./network-patterns";
+import { effectiveSeverity, passesSeverityFilter } from "./rules";
+import { applySuppressions } from "./suppressions";
+import {
+  Finding,
+  FileScanOptions,
+  ScanOptions,
+  ScanResult,
+  TextScanOptions,
+} from "./types";
+
+export const NETWORK_EXTENSIONS = AST_EXTENSIONS;
 
 export interface NetworkFinding extends Finding {
   readonly category: "request" | "response" | "logging" | "error-handling";
 }
 
 /**
- * Scan file for network security issues
+ * Scan in-memory content for network security issues.
+ * JavaScript and TypeScript are parsed; rules the parser-backed analyzer
+ * covers skip their per-line regexes.
  */
-export function scanNetworkSecurity(
+export function scanNetworkContent(
+  content: string,
   filePath: string,
-  options: { severity?: "error" | "warning" | "all" } = {},
+  options: FileScanOptions = {},
 ): NetworkFinding[] {
   const findings: NetworkFinding[] = [];
+  const lines = content.split("\n");
+  const astMatches = analyzeNetworkAst(content, filePath);
+  const usesAst = (name: string) => astMatches !== null && AST_RULES.has(name);
 
-  try {
-    const content = fs.readFileSync(filePath, "utf8");
-    const lines = content.split("\n");
-
-    lines.forEach((line, index) => {
-      // Check patterns
-      NETWORK_PATTERNS.forEach((pattern) => {
-        // Skip if severity filter doesn't match
-        if (
-          options.severity &&
-          options.severity !== "all" &&
-          pattern.severity !== options.severity
-        ) {
-          return;
-        }
-
-        const matches = line.matchAll(pattern.regex);
-
-        for (const match of matches) {
-          findings.push({
-            filePath,
-            lineNumber: index + 1,
-            column: (match.index || 0) + 1,
-            match: match[0].substring(0, 100),
-            pattern: pattern.name,
-            severity: pattern.severity,
+  astMatches?.forEach((match) => {
+    const pattern =
+      NETWORK_PATTERNS.find((p) => p.name === match.rule) ??
+      DATA_FLOW_RULES.find((r) => r.name === match.rule) ??
+      NETWORK_SECURITY_CHECKS.find((c) => c.name === match.rule);
+    if (!pattern) {
+      return;
+    }
+
+    const severity = effectiveSeverity(
+      pattern.name,
+      pattern.severity,
+      options.rules,
+    );
+    if (!severity || !passesSeverityFilter(severity, options.severity)) {
+      return;
+    }
+
+    findings.push({
+      filePath,
+      lineNumber: match.lineNumber,
+      column: match.column,
+      match: match.match,
+      pattern: pattern.name,
+      severity,
+      ...("category" in pattern
+        ? {
             message: pattern.message,
             fixSuggestion: pattern.fixSuggestion,
             category: pattern.category,
-          });
-        }
-      });
-
-      // Run additional security checks
-      NETWORK_SECURITY_CHECKS.forEach((check) => {
-        if (check.check(line)) {
-          findings.push({
-            filePath,
-            lineNumber: index + 1,
-            column: 1,
-            match: line.substring(0, 100),
-            pattern: check.name,
-            severity: check.severity,
-            message: check.description,
+          }
+        : {
+            message: pattern.description,
             fixSuggestion: "Review this code for security issues",
-            category: "logging", // Default category for custom checks
-          });
-        }
-      });
+            category: "logging" as const,
+          }),
+      ...(match.dataFlow && { dataFlow: match.dataFlow }),
     });
+  });
+
+  const patterns = [
+    ...NETWORK_PATTERNS,
+    ...(options.customNetworkPatterns ?? []),
+  ];
+
+  lines.forEach((line, index) => {
+    // Check patterns
+    patterns.forEach((pattern) => {
+      if (usesAst(pattern.name)) {
+        return;
+      }
+
+      const severity = effectiveSeverity(
+        pattern.name,
+        pattern.severity,
+        options.rules,
+      );
+
+      // Skip disabled rules and those the severity filter doesn't match
+      if (!severity || !passesSeverityFilter(severity, options.severity)) {
+        return;
+      }
+
+      const matches = line.matchAll(pattern.regex);
+
+      for (const match of matches) {
+        findings.push({
+          filePath,
+          lineNumber: index + 1,
+          column: (match.index || 0) + 1,
+          match: match[0].substring(0, 100),
+          pattern: pattern.name,
+          severity,
+          message: pattern.message,
+          fixSuggestion: pattern.fixSuggestion,
+          category: pattern.category,
+        });
+      }
+    });
+
+    // Run additional security checks
+    NETWORK_SECURITY_CHECKS.forEach((check) => {
+      if (usesAst(check.name)) {
+        return;
+      }
+
+      const severity = effectiveSeverity(
+        check.name,
+        check.severity,
+        options.rules,
+      );
+
+      if (!severity || !passesSeverityFilter(severity, options.severity)) {
+        return;
+      }
+
+      if (check.check(line)) {
+        findings.push({
+          filePath,
+          lineNumber: index + 1,
+          column: 1,
+          match: line.substring(0, 100),
+          pattern: check.name,
+          severity,
+          message: check.description,
+          fixSuggestion: "Review this code for security issues",
+          category: "logging", // Default category for custom checks
+        });
+      }
+    });
+  });
+
+  findings.sort((a, b) => a.lineNumber - b.lineNumber || a.column - b.column);
+
+  return applySuppressions(content, findings);
+}
+
+/**
+ * Scan file for network security issues
+ */
+export function scanNetworkSecurity(
+  filePath: string,
+  options: FileScanOptions = {},
+): NetworkFinding[] {
+  try {
+    const content = fs.readFileSync(filePath, "utf8");
+    return scanNetworkContent(content, filePath, options);
   } catch (error) {
     // Log minimal error info
     console.error(`Error reading file for network scan: ${filePath}`);
   }
 
-  return findings;
+  return [];
+}
+
+/**
+ * Scan text that is not on disk for network security issues. Code is
+ * parsed when options.filename has a JavaScript or TypeScript extension.
+ */
+export function scanNetworkText(
+  content: string,
+  options: TextScanOptions = {},
+): NetworkFinding[] {
+  return scanTextWith(scanNetworkContent, content, options);
+}
+
+/**
+ * Stream the results of a network scan of a file or directory as files
+ * finish, including files without findings and skipped files
+ */
+export function streamNetworkDirectory(
+  options: ScanOptions,
+): AsyncGenerator<ScanResult<NetworkFinding>> {
+  return scanFiles(
+    walkOptions({ ...options, extensions: NETWORK_EXTENSIONS }),
+    {
+      scanner: "network",
+      scan: scanNetworkContent,
+      fileOptions: (filePath) => fileScanOptions(options, filePath),
+      workers: options.workers,
+      maxFileSize: options.maxFileSize,
+      scanGenerated: options.scanGenerated ?? options.config?.scanGenerated,
+      cache: options.cache,
+    },
+  );
+}
+
+/**
+ * Scan a file or directory for network security issues
+ */
+export async function scanNetworkDirectory(
+  options: ScanOptions,
+): Promise<NetworkFinding[]> {
+  const results = await collectResults(streamNetworkDirectory(options));
+  return results.flatMap((result) => result.findings);
 }
 
 /**
@@ -99,15 +241,14 @@ export function getNetworkSecuritySummary(
 }
 
 /**
- * Check if code has proper error handling for network requests
+ * Check if every fetch/axios request in the code handles its errors, either
+ * with .catch or by awaiting it inside try/catch
  */
-export function hasProperErrorHandling(content: string): boolean {
-  // Check for common patterns that indicate proper error handling
-  const hasTryCatch =
-    /try\s*\{[\s\S]*?fetch|axios|XMLHttpRequest[\s\S]*?\}\s*catch/gi.test(
-      content,
-    );
-  const hasCatchBlock = /\.catch\s*\(/gi.test(content);
-
-  return hasTryCatch || hasCatchBlock;
+export function hasProperErrorHandling(
+  content: string,
+  filePath: string = "index.ts",
+): boolean {
+  return !(analyzeNetworkAst(content, filePath) ?? []).some(
+    (match) => match.rule === "Missing Error Handler",
+  );
 }
@@ -148,6 +148,45 @@ export const NETWORK_PATTERNS: readonly NetworkPattern[] = [
   },
 ];
 
+/**
+ * Data-flow rules, reported when a tainted value reaches a sink.
+ * User data reaching res.json/res.send or console.* reuses the
+ * "Return Full User Object in Response" and "Console Log with User Object"
+ * rules.
+ */
+export interface DataFlowRule {
+  readonly name: string;
+  readonly severity: "error" | "warning";
+  readonly message: string;
+  readonly fixSuggestion: string;
+  readonly category: NetworkPattern["category"];
+}
+
+export const DATA_FLOW_RULES: readonly DataFlowRule[] = [
+  {
+    name: "Logger Call with User Object",
+    severity: "error",
+    message: "User data reaches a logger call without picking fields",
+    fixSuggestion:
+      "Log only identifiers, e.g. logger.info({ userId: user.id })",
+    category: "logging",
+  },
+  {
+    name: "Secret in Response",
+    severity: "error",
+    message: "Secret from process.env reaches an API response",
+    fixSuggestion: "Never send server-side secrets to clients",
+    category: "response",
+  },
+  {
+    name: "Secret in Log",
+    severity: "error",
+    message: "Secret from process.env reaches a log call",
+    fixSuggestion: "Remove the secret from the log call or redact it",
+    category: "logging",
+  },
+];
+
 /**
  * Additional checks for network security
  */
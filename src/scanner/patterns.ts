@@ -93,7 +93,7 @@ export const PATTERNS: readonly Pattern[] = [
   },
   {
     name: "Slack Token",
-    regex: /xox[baprs]-[0-9a-zA-Z]{10,48}/g,
+    regex: /xox[baprs]-[0-9a-zA-Z]{10,48}(?:-[0-9a-zA-Z]+)*/g,
     severity: "error",
     message: "Slack token detected",
     fixSuggestion: "Use environment variable: process.env.SLACK_TOKEN",
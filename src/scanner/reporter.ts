@@ -2,11 +2,18 @@
  * Reporter module for formatting scan results
  */
 
-import { ScanResult } from "./types";
+import { generateSarifReport } from "./sarif";
+import { Finding, ScanResult } from "./types";
+
+export const REPORT_FORMATS = ["console", "json", "markdown", "sarif"] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
 
 export interface ReportOptions {
-  readonly format: "console" | "json" | "markdown";
+  readonly format: ReportFormat;
   readonly showFixes?: boolean;
+  /** Directory that SARIF paths are relative to (default: cwd) */
+  readonly rootDir?: string;
 }
 
 export function generateReport(
@@ -18,20 +25,26 @@ export function generateReport(
       return generateJsonReport(results);
     case "markdown":
       return generateMarkdownReport(results);
+    case "sarif":
+      return generateSarifReport(results, options.rootDir);
     case "console":
     default:
       return generateConsoleReport(results, options.showFixes ?? true);
   }
 }
 
+/**
+ * Hide the matched text, which may be the secret itself
+ */
+export function redactFinding<T extends Finding>(finding: T): T {
+  return { ...finding, match: "[REDACTED]" };
+}
+
 function generateJsonReport(results: ScanResult[]): string {
   // Redact sensitive match content in JSON output
   const sanitizedResults = results.map((result) => ({
     ...result,
-    findings: result.findings.map((finding) => ({
-      ...finding,
-      match: "[REDACTED]",
-    })),
+    findings: result.findings.map(redactFinding),
   }));
 
   return JSON.stringify(sanitizedResults, null, 2);
@@ -70,6 +83,15 @@ function generateMarkdownReport(results: ScanResult[]): string {
       report += `${icon} **${finding.severity.toUpperCase()}** - Line ${finding.lineNumber}\n\n`;
       report += `- **Issue:** ${finding.message}\n`;
       report += `- **Pattern:** ${finding.pattern}\n`;
+      if (finding.confidence !== undefined) {
+        report += `- **Confidence:** ${Math.round(finding.confidence * 100)}%\n`;
+      }
+      if (finding.verified) {
+        report += `- **Verified:** ${finding.verified}\n`;
+      }
+      if (finding.dataFlow) {
+        report += `- **Data flow:** ${finding.dataFlow.map((step) => `\`${step.expression}\` (line ${step.lineNumber})`).join(" → ")}\n`;
+      }
       report += `- **Fix:** ${finding.fixSuggestion}\n\n`;
     });
   });
@@ -0,0 +1,279 @@
+/**
+ * Rule pack loader - custom rules from YAML or JSON files
+ *
+ * name: acme
+ * rules:
+ *   - name: Acme Internal Token
+ *     regex: "acme_[a-z0-9]{32}"
+ *     severity: error
+ *     category: secret            # or request/response/logging/error-handling
+ *     message: Acme token found
+ *     fixSuggestion: Use process.env.ACME_TOKEN
+ *     files: ["services/**"]      # optional globs
+ *     tests:
+ *       positive: ["acme_0123456789abcdef0123456789abcdef"]
+ *       negative: ["acme_short"]
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { NetworkPattern } from "./network-patterns";
+import { Pattern } from "./patterns";
+import { toRuleId } from "./rules";
+
+export const RULE_CATEGORIES = [
+  "secret",
+  "request",
+  "response",
+  "logging",
+  "error-handling",
+] as const;
+
+export type RuleCategory = (typeof RULE_CATEGORIES)[number];
+
+export interface PackRule {
+  readonly pattern: Pattern | NetworkPattern;
+  /** "secret" rules run in scan, the others in scan-network */
+  readonly category: RuleCategory;
+  /** Globs relative to the config root; all files when absent */
+  readonly files?: readonly string[];
+}
+
+export interface RulePack {
+  readonly name: string;
+  readonly path: string;
+  readonly rules: readonly PackRule[];
+}
+
+/**
+ * Thrown when a rule pack is malformed or its regexes fail their examples
+ */
+export class RulePackError extends Error {
+  constructor(
+    readonly packPath: string,
+    readonly problems: readonly string[],
+  ) {
+    super(
+      `Invalid rule pack ${packPath}:\n${problems.map((p) => `  - ${p}`).join("\n")}`,
+    );
+    this.name = "RulePackError";
+  }
+}
+
+const RULE_KEYS = [
+  "name",
+  "regex",
+  "flags",
+  "severity",
+  "message",
+  "fixSuggestion",
+  "category",
+  "files",
+  "tests",
+];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function parsePackFile(packPath: string): unknown {
+  const content = fs.readFileSync(packPath, "utf8");
+
+  return /\.ya?ml$/i.test(packPath) ? parseYaml(content) : JSON.parse(content);
+}
+
+/**
+ * Check a regex against its bundled examples
+ */
+function checkExamples(
+  regex: RegExp,
+  tests: Record<string, unknown>,
+  key: string,
+  problems: string[],
+): void {
+  const probe = new RegExp(regex.source, regex.flags.replace("g", ""));
+
+  (["positive", "negative"] as const).forEach((kind) => {
+    const examples = tests[kind];
+    if (examples === undefined) {
+      return;
+    }
+    if (!isStringArray(examples)) {
+      problems.push(`"${key}.tests.${kind}" must be an array of strings`);
+      return;
+    }
+
+    examples.forEach((example) => {
+      const matched = probe.test(example);
+      if (kind === "positive" && !matched) {
+        problems.push(
+          `${key}: regex does not match positive example "${example}"`,
+        );
+      }
+      if (kind === "negative" && matched) {
+        problems.push(`${key}: regex matches negative example "${example}"`);
+      }
+    });
+  });
+}
+
+function validateRule(
+  raw: unknown,
+  key: string,
+  problems: string[],
+): PackRule | null {
+  if (!isPlainObject(raw)) {
+    problems.push(`"${key}" must be an object`);
+    return null;
+  }
+
+  const before = problems.length;
+
+  Object.keys(raw)
+    .filter((field) => !RULE_KEYS.includes(field))
+    .forEach((field) => problems.push(`unknown option "${key}.${field}"`));
+
+  ["name", "regex", "message", "fixSuggestion"].forEach((field) => {
+    if (typeof raw[field] !== "string" || raw[field] === "") {
+      problems.push(`"${key}.${field}" must be a non-empty string`);
+    }
+  });
+
+  if (raw.severity !== "error" && raw.severity !== "warning") {
+    problems.push(`"${key}.severity" must be one of error, warning`);
+  }
+
+  const category = raw.category ?? "secret";
+  if (!(RULE_CATEGORIES as readonly unknown[]).includes(category)) {
+    problems.push(
+      `"${key}.category" must be one of ${RULE_CATEGORIES.join(", ")}`,
+    );
+  }
+
+  if (raw.files !== undefined && !isStringArray(raw.files)) {
+    problems.push(`"${key}.files" must be an array of globs`);
+  }
+
+  if (raw.flags !== undefined && typeof raw.flags !== "string") {
+    problems.push(`"${key}.flags" must be a string`);
+  }
+
+  let regex: RegExp | null = null;
+  if (typeof raw.regex === "string") {
+    const flags = String(raw.flags ?? "");
+    try {
+      regex = new RegExp(raw.regex, flags.includes("g") ? flags : `${flags}g`);
+    } catch (error) {
+      problems.push(
+        `"${key}.regex" is not a valid regular expression: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  if (raw.tests !== undefined) {
+    if (!isPlainObject(raw.tests)) {
+      problems.push(`"${key}.tests" must be an object`);
+    } else if (regex) {
+      checkExamples(regex, raw.tests, key, problems);
+    }
+  }
+
+  if (problems.length > before || !regex) {
+    return null;
+  }
+
+  const pattern: Pattern = {
+    name: raw.name as string,
+    regex,
+    severity: raw.severity as "error" | "warning",
+    message: raw.message as string,
+    fixSuggestion: raw.fixSuggestion as string,
+  };
+
+  return {
+    pattern:
+      category === "secret"
+        ? pattern
+        : { ...pattern, category: category as NetworkPattern["category"] },
+    category: category as RuleCategory,
+    files: raw.files as string[] | undefined,
+  };
+}
+
+/**
+ * Load and validate one rule pack
+ */
+export function loadRulePack(
+  packPath: string,
+  reservedIds: ReadonlySet<string> = new Set(),
+): RulePack {
+  let raw: unknown;
+  try {
+    raw = parsePackFile(packPath);
+  } catch (error) {
+    throw new RulePackError(packPath, [
+      `could not be parsed: ${error instanceof Error ? error.message : error}`,
+    ]);
+  }
+
+  const problems: string[] = [];
+
+  if (!isPlainObject(raw) || !Array.isArray(raw.rules)) {
+    throw new RulePackError(packPath, ['pack must have a "rules" array']);
+  }
+
+  const seen = new Set(reservedIds);
+  const rules: PackRule[] = [];
+
+  raw.rules.forEach((rawRule: unknown, index: number) => {
+    const key = `rules[${index}]`;
+    const rule = validateRule(rawRule, key, problems);
+    if (!rule) {
+      return;
+    }
+
+    const id = toRuleId(rule.pattern.name);
+    if (seen.has(id)) {
+      problems.push(`${key}: rule id "${id}" is already defined`);
+      return;
+    }
+
+    seen.add(id);
+    rules.push(rule);
+  });
+
+  if (problems.length > 0) {
+    throw new RulePackError(packPath, problems);
+  }
+
+  return {
+    name:
+      typeof raw.name === "string"
+        ? raw.name
+        : path.basename(packPath).replace(/\.(ya?ml|json)$/i, ""),
+    path: packPath,
+    rules,
+  };
+}
+
+/**
+ * Load rule packs in order. Rule ids must be unique across built-in rules
+ * and all packs.
+ */
+export function loadRulePacks(
+  packPaths: readonly string[],
+  builtInIds: ReadonlySet<string>,
+): RulePack[] {
+  const reserved = new Set(builtInIds);
+
+  return packPaths.map((packPath) => {
+    const pack = loadRulePack(packPath, reserved);
+    pack.rules.forEach((rule) => reserved.add(toRuleId(rule.pattern.name)));
+    return pack;
+  });
+}
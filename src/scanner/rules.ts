@@ -0,0 +1,43 @@
+/**
+ * Rule identifiers and per-rule settings
+ * Rules are referenced by a slug of their pattern name, e.g. "api-key-generic"
+ */
+
+import { RuleSetting } from "./types";
+
+/**
+ * Convert a pattern name to its rule id
+ */
+export function toRuleId(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Resolve the effective severity of a rule, or null when it is turned off
+ */
+export function effectiveSeverity(
+  name: string,
+  defaultSeverity: "error" | "warning",
+  rules: Readonly<Record<string, RuleSetting>> = {},
+): "error" | "warning" | null {
+  const setting = rules[toRuleId(name)];
+
+  if (setting === "off") {
+    return null;
+  }
+
+  return setting ?? defaultSeverity;
+}
+
+/**
+ * Check whether a severity passes the minimum severity filter
+ */
+export function passesSeverityFilter(
+  severity: "error" | "warning",
+  filter?: "error" | "warning" | "all",
+): boolean {
+  return !filter || filter === "all" || severity === filter;
+}
@@ -0,0 +1,162 @@
+/**
+ * SARIF 2.1.0 output for code-scanning dashboards
+ * Matches are never included; results carry only rule, message and region.
+ */
+
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { VERSION } from "../version";
+import { fingerprintFindings } from "./baseline";
+import { getRuleCatalog } from "./catalog";
+import { toRuleId } from "./rules";
+import { Finding, ScanResult } from "./types";
+
+interface RuleMetadata {
+  readonly name: string;
+  readonly message: string;
+  readonly fixSuggestion: string;
+  readonly severity: "error" | "warning";
+  readonly category: string;
+}
+
+interface SarifRule {
+  readonly id: string;
+  readonly name: string;
+  readonly shortDescription: { readonly text: string };
+  readonly help: { readonly text: string; readonly markdown: string };
+  readonly defaultConfiguration: { readonly level: "error" | "warning" };
+  readonly properties: { readonly tags: readonly string[] };
+}
+
+/**
+ * Rule metadata for every built-in rule, keyed by rule id
+ */
+function knownRuleMetadata(): Map<string, RuleMetadata> {
+  return new Map(
+    getRuleCatalog().map((rule) => [
+      rule.id,
+      { ...rule, severity: rule.defaultSeverity },
+    ]),
+  );
+}
+
+function toSarifRule(id: string, rule: RuleMetadata): SarifRule {
+  return {
+    id,
+    name: rule.name,
+    shortDescription: { text: rule.message },
+    help: {
+      text: rule.fixSuggestion,
+      markdown: `**${rule.message}**\n\n${rule.fixSuggestion}`,
+    },
+    defaultConfiguration: { level: rule.severity },
+    properties: { tags: ["security", rule.category] },
+  };
+}
+
+function toUri(filePath: string, rootDir: string): string {
+  return path
+    .relative(rootDir, path.resolve(rootDir, filePath))
+    .split(path.sep)
+    .join("/");
+}
+
+/**
+ * Generate a SARIF log. Paths are relative to rootDir (%SRCROOT%).
+ */
+export function generateSarifReport(
+  results: readonly ScanResult[],
+  rootDir: string = process.cwd(),
+): string {
+  const knownRules = knownRuleMetadata();
+  const rules: SarifRule[] = [];
+  const ruleIndexes = new Map<string, number>();
+  const findings: Finding[] = results.flatMap((r) => [...r.findings]);
+  const fingerprints = fingerprintFindings(findings, rootDir);
+
+  function ruleIndex(finding: Finding): number {
+    const id = toRuleId(finding.pattern);
+    const existing = ruleIndexes.get(id);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const category =
+      "category" in finding ? String(finding.category) : "secrets";
+    const metadata = knownRules.get(id) ?? { ...finding, category };
+    rules.push(toSarifRule(id, { ...metadata, name: finding.pattern }));
+    ruleIndexes.set(id, rules.length - 1);
+    return rules.length - 1;
+  }
+
+  const sarifResults = findings.map((finding, index) => ({
+    ruleId: toRuleId(finding.pattern),
+    ruleIndex: ruleIndex(finding),
+    level: finding.severity,
+    message: { text: `${finding.message}. ${finding.fixSuggestion}` },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: {
+            uri: toUri(finding.filePath, rootDir),
+            uriBaseId: "%SRCROOT%",
+          },
+          region: {
+            startLine: finding.lineNumber,
+            startColumn: finding.column,
+          },
+        },
+      },
+    ],
+    partialFingerprints: { "vibecurb/v1": fingerprints[index] },
+    ...(finding.verified && { properties: { verified: finding.verified } }),
+    ...(finding.dataFlow && {
+      codeFlows: [
+        {
+          threadFlows: [
+            {
+              locations: finding.dataFlow.map((step) => ({
+                location: {
+                  physicalLocation: {
+                    artifactLocation: {
+                      uri: toUri(finding.filePath, rootDir),
+                      uriBaseId: "%SRCROOT%",
+                    },
+                    region: {
+                      startLine: step.lineNumber,
+                      startColumn: step.column,
+                    },
+                  },
+                  message: { text: step.expression },
+                },
+              })),
+            },
+          ],
+        },
+      ],
+    }),
+  }));
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "vibecurb",
+            version: VERSION,
+            informationUri: "https://github.com/Mofuhidy/vibecurb",
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          "%SRCROOT%": { uri: `${pathToFileURL(rootDir).href}/` },
+        },
+        results: sarifResults,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
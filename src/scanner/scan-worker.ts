@@ -0,0 +1,32 @@
+/**
+ * Worker thread entry point for the scan engine
+ */
+
+import { parentPort } from "worker_threads";
+import { scanProjectContent } from "./detector";
+import { ContentScanner, ScannerName, WorkerReply, WorkerTask } from "./engine";
+import { scanNetworkContent } from "./network-detector";
+import { Finding } from "./types";
+
+const SCANNERS: Readonly<Record<ScannerName, ContentScanner<Finding>>> = {
+  secrets: scanProjectContent,
+  network: scanNetworkContent,
+};
+
+parentPort?.on("message", (task: WorkerTask) => {
+  let reply: WorkerReply;
+  try {
+    reply = {
+      findings: SCANNERS[task.scanner](
+        task.content,
+        task.filePath,
+        task.options,
+      ),
+    };
+  } catch (error) {
+    reply = {
+      error: error instanceof Error ? error.message : "unknown error",
+    };
+  }
+  parentPort?.postMessage(reply);
+});
@@ -0,0 +1,115 @@
+/**
+ * Event-emitting scanner for programs that embed vibecurb
+ */
+
+import { EventEmitter } from "events";
+import * as path from "path";
+import { loadConfig, resolveConfig } from "../config/loader";
+import { streamDirectory } from "./detector";
+import { ScannerName } from "./engine";
+import { NetworkFinding, streamNetworkDirectory } from "./network-detector";
+import { Finding, ScanOptions, ScanResult } from "./types";
+
+export interface ScannerOptions extends Omit<ScanOptions, "path"> {
+  /** Scans to run; default both */
+  readonly scanners?: readonly ScannerName[];
+}
+
+/** Files with findings or errors, sorted by path */
+export interface ScannerResults {
+  readonly secrets: ScanResult[];
+  readonly network: ScanResult<NetworkFinding>[];
+}
+
+/** A file that could not be read */
+export class FileScanError extends Error {
+  constructor(
+    readonly filePath: string,
+    readonly scanner: ScannerName,
+    reason: string,
+  ) {
+    super(`${filePath}: ${reason}`);
+    this.name = "FileScanError";
+  }
+}
+
+/**
+ * Scans files for secrets and network security issues, reporting each file
+ * and finding as it is done. Without a config in the options, the nearest
+ * .vibecurbrc.json of the scanned path is used.
+ */
+export class Scanner {
+  private readonly events = new EventEmitter();
+
+  constructor(private readonly options: ScannerOptions = {}) {}
+
+  /** Listen for each finding as its file finishes */
+  onFinding(listener: (finding: Finding, scanner: ScannerName) => void): this {
+    this.events.on("finding", listener);
+    return this;
+  }
+
+  /** Listen for every file, including files without findings and skipped ones */
+  onFile(listener: (result: ScanResult, scanner: ScannerName) => void): this {
+    this.events.on("file", listener);
+    return this;
+  }
+
+  /** Listen for files that could not be read */
+  onError(listener: (error: FileScanError) => void): this {
+    // Not "error", which EventEmitter throws when nobody listens
+    this.events.on("file-error", listener);
+    return this;
+  }
+
+  /**
+   * Scan a file or directory. Config errors reject; unreadable files are
+   * reported to onError and listed in the results.
+   */
+  async scan(scanPath: string): Promise<ScannerResults> {
+    const fullPath = path.resolve(scanPath);
+    const scanners = this.options.scanners ?? ["secrets", "network"];
+    const options: ScanOptions = {
+      ...this.options,
+      path: fullPath,
+      config:
+        this.options.config ??
+        resolveConfig(loadConfig(fullPath), {}, fullPath),
+    };
+
+    return {
+      secrets: scanners.includes("secrets")
+        ? await this.drain("secrets", streamDirectory(options))
+        : [],
+      network: scanners.includes("network")
+        ? await this.drain("network", streamNetworkDirectory(options))
+        : [],
+    };
+  }
+
+  private async drain<T extends Finding>(
+    scanner: ScannerName,
+    stream: AsyncIterable<ScanResult<T>>,
+  ): Promise<ScanResult<T>[]> {
+    const results: ScanResult<T>[] = [];
+
+    for await (const result of stream) {
+      this.events.emit("file", result, scanner);
+      if (result.error) {
+        this.events.emit(
+          "file-error",
+          new FileScanError(result.filePath, scanner, result.error),
+        );
+      }
+      result.findings.forEach((finding) =>
+        this.events.emit("finding", finding, scanner),
+      );
+
+      if (result.findings.length > 0 || result.error) {
+        results.push(result);
+      }
+    }
+
+    return results.sort((a, b) => a.filePath.localeCompare(b.filePath));
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Inline suppression comments
+ *
+ *   // vibecurb-ignore-next-line api-key-generic
+ *   const key = "..."; // vibecurb-ignore email-address, jwt-token -- reason
+ *
+ * Without a rule list every rule is suppressed on that line. Works with any
+ * comment syntax since only the marker text is matched.
+ */
+
+import { toRuleId } from "./rules";
+import { Finding } from "./types";
+
+const SUPPRESSION_REGEX =
+  /vibecurb-ignore(-next-line)?\b([^\n]*?)(?:\s--\s.*)?(?:\*\/|-->)?\s*$/;
+
+/** Rule ids suppressed per 1-based line number; null means all rules */
+export type SuppressionMap = Map<number, Set<string> | null>;
+
+/**
+ * Parse suppression comments from file content
+ */
+export function parseSuppressions(content: string): SuppressionMap {
+  const suppressions: SuppressionMap = new Map();
+
+  content.split("\n").forEach((line, index) => {
+    const match = SUPPRESSION_REGEX.exec(line);
+    if (!match) {
+      return;
+    }
+
+    const target = match[1] ? index + 2 : index + 1;
+    const rules = match[2]
+      .split(/[\s,]+/)
+      .filter((rule) => rule.length > 0)
+      .map(toRuleId);
+
+    const existing = suppressions.get(target);
+    if (rules.length === 0 || existing === null) {
+      suppressions.set(target, null);
+    } else {
+      suppressions.set(target, new Set([...(existing ?? []), ...rules]));
+    }
+  });
+
+  return suppressions;
+}
+
+/**
+ * Check whether a finding is suppressed by an inline comment
+ */
+export function isSuppressed(
+  finding: Finding,
+  suppressions: SuppressionMap,
+): boolean {
+  if (!suppressions.has(finding.lineNumber)) {
+    return false;
+  }
+
+  const rules = suppressions.get(finding.lineNumber);
+  return rules === null || rules === undefined
+    ? true
+    : rules.has(toRuleId(finding.pattern));
+}
+
+/**
+ * Drop findings suppressed by comments in the given content
+ */
+export function applySuppressions<T extends Finding>(
+  content: string,
+  findings: T[],
+): T[] {
+  if (!content.includes("vibecurb-ignore")) {
+    return findings;
+  }
+
+  const suppressions = parseSuppressions(content);
+  return findings.filter((finding) => !isSuppressed(finding, suppressions));
+}
@@ -0,0 +1,343 @@
+/**
+ * Intra-file taint tracking for the network analyzer
+ * Marks values from sources (req.user, ORM lookups, secret env vars), follows
+ * them through assignments and destructuring, and stops at field-picking
+ * steps such as user.name, const { name } = user or .select(...).
+ */
+
+import * as ts from "typescript";
+import { isSecretLikeName } from "./entropy";
+import { DataFlowStep } from "./types";
+
+export type TaintKind = "user" | "secret";
+
+export interface Taint {
+  /** "user" for request users and database records, "secret" for env secrets */
+  readonly kind: TaintKind;
+  /** Source first, then each assignment the value went through */
+  readonly steps: readonly DataFlowStep[];
+}
+
+export interface TaintTracker {
+  /** Record declarations and assignments; call for every node in order */
+  record(node: ts.Node): void;
+  taintOf(node: ts.Expression): Taint | null;
+  /** Path from the source to a sink call */
+  pathTo(taint: Taint, sink: ts.Node): DataFlowStep[];
+}
+
+const REQUEST_NAMES = ["req", "request"];
+const ORM_LOOKUPS = [
+  "findOne",
+  "findById",
+  "findByPk",
+  "findUnique",
+  "findFirst",
+  "findOneBy",
+  "findOneOrFail",
+  "findUniqueOrThrow",
+  "findFirstOrThrow",
+];
+// Query builder methods that keep the whole record
+const PASS_THROUGH_METHODS = [
+  "lean",
+  "exec",
+  "populate",
+  "toJSON",
+  "toObject",
+  "get",
+];
+// Options that limit which fields a lookup returns
+const PROJECTION_OPTIONS = ["select", "attributes", "projection"];
+
+function isScope(node: ts.Node): boolean {
+  return ts.isSourceFile(node) || ts.isFunctionLike(node);
+}
+
+function unwrap(node: ts.Expression): ts.Expression {
+  while (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAwaitExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isNonNullExpression(node) ||
+    ts.isTypeAssertionExpression(node)
+  ) {
+    node = node.expression;
+  }
+  return node;
+}
+
+function hasProjection(call: ts.CallExpression): boolean {
+  const [, second] = call.arguments;
+  if (second && !ts.isFunctionLike(second)) {
+    // Mongoose: Model.findById(id, "name email")
+    return true;
+  }
+
+  return call.arguments.some(
+    (arg) =>
+      ts.isObjectLiteralExpression(arg) &&
+      arg.properties.some(
+        (p) =>
+          p.name !== undefined &&
+          ts.isIdentifier(p.name) &&
+          PROJECTION_OPTIONS.includes(p.name.text),
+      ),
+  );
+}
+
+/**
+ * Create a tracker for one source file
+ */
+export function createTaintTracker(source: ts.SourceFile): TaintTracker {
+  const scopes = new Map<ts.Node, Map<string, Taint | null>>();
+
+  function step(node: ts.Node): DataFlowStep {
+    const { line, character } = source.getLineAndCharacterOfPosition(
+      node.getStart(source),
+    );
+    return {
+      lineNumber: line + 1,
+      column: character + 1,
+      expression: node.getText(source).replace(/\s+/g, " ").substring(0, 100),
+    };
+  }
+
+  function scopeOf(node: ts.Node): ts.Node {
+    let current = node.parent;
+    while (current && !isScope(current)) {
+      current = current.parent;
+    }
+    return current ?? source;
+  }
+
+  function bindings(scope: ts.Node): Map<string, Taint | null> {
+    let names = scopes.get(scope);
+    if (!names) {
+      names = new Map();
+      scopes.set(scope, names);
+    }
+    return names;
+  }
+
+  function lookup(node: ts.Identifier): Taint | null {
+    for (let scope: ts.Node | undefined = scopeOf(node); scope;) {
+      const names = scopes.get(scope);
+      if (names?.has(node.text)) {
+        return names.get(node.text) ?? null;
+      }
+      scope = ts.isSourceFile(scope) ? undefined : scopeOf(scope);
+    }
+    return null;
+  }
+
+  function fromSource(kind: TaintKind, node: ts.Node): Taint {
+    return { kind, steps: [step(node)] };
+  }
+
+  function through(taint: Taint | null, node: ts.Node): Taint | null {
+    return taint && { ...taint, steps: [...taint.steps, step(node)] };
+  }
+
+  function firstTainted(nodes: readonly ts.Expression[]): Taint | null {
+    for (const node of nodes) {
+      const taint = taintOf(node);
+      if (taint) {
+        return taint;
+      }
+    }
+    return null;
+  }
+
+  function memberTaint(
+    base: ts.Expression,
+    name: string,
+    node: ts.Node,
+  ): Taint | null {
+    const inner = unwrap(base);
+
+    // process.env.JWT_SECRET
+    if (inner.getText(source) === "process.env" && isSecretLikeName(name)) {
+      return fromSource("secret", node);
+    }
+    if (
+      name === "user" &&
+      ts.isIdentifier(inner) &&
+      REQUEST_NAMES.includes(inner.text)
+    ) {
+      return fromSource("user", node);
+    }
+    // The whole of process.env
+    if (name === "env" && inner.getText(source) === "process") {
+      return fromSource("secret", node);
+    }
+
+    // Reading one field of a tainted value is a field-picking step
+    return null;
+  }
+
+  function callTaint(call: ts.CallExpression): Taint | null {
+    const callee = call.expression;
+
+    if (ts.isPropertyAccessExpression(callee)) {
+      const method = callee.name.text;
+
+      if (ORM_LOOKUPS.includes(method)) {
+        return hasProjection(call) ? null : fromSource("user", call);
+      }
+      if (PASS_THROUGH_METHODS.includes(method)) {
+        return taintOf(callee.expression);
+      }
+
+      const name = callee.getText(source);
+      if (name === "JSON.stringify" || name === "structuredClone") {
+        return firstTainted(call.arguments.slice(0, 1));
+      }
+      if (name === "Object.assign") {
+        return firstTainted(call.arguments);
+      }
+    }
+
+    if (ts.isIdentifier(callee) && callee.text === "structuredClone") {
+      return firstTainted(call.arguments.slice(0, 1));
+    }
+
+    return null;
+  }
+
+  function taintOf(node: ts.Expression): Taint | null {
+    const inner = unwrap(node);
+
+    if (ts.isIdentifier(inner)) {
+      return lookup(inner);
+    }
+    if (ts.isPropertyAccessExpression(inner)) {
+      return memberTaint(inner.expression, inner.name.text, inner);
+    }
+    if (
+      ts.isElementAccessExpression(inner) &&
+      ts.isStringLiteral(inner.argumentExpression)
+    ) {
+      return memberTaint(
+        inner.expression,
+        inner.argumentExpression.text,
+        inner,
+      );
+    }
+    if (ts.isCallExpression(inner)) {
+      return callTaint(inner);
+    }
+    if (ts.isObjectLiteralExpression(inner)) {
+      // Containers and spreads carry the whole value along
+      for (const property of inner.properties) {
+        const taint = ts.isPropertyAssignment(property)
+          ? taintOf(property.initializer)
+          : ts.isShorthandPropertyAssignment(property)
+            ? lookup(property.name)
+            : ts.isSpreadAssignment(property)
+              ? taintOf(property.expression)
+              : null;
+        if (taint) {
+          return taint;
+        }
+      }
+      return null;
+    }
+    if (ts.isArrayLiteralExpression(inner)) {
+      return firstTainted(
+        inner.elements.map((e) => (ts.isSpreadElement(e) ? e.expression : e)),
+      );
+    }
+    if (ts.isTemplateExpression(inner)) {
+      return firstTainted(inner.templateSpans.map((span) => span.expression));
+    }
+    if (ts.isConditionalExpression(inner)) {
+      return firstTainted([inner.whenTrue, inner.whenFalse]);
+    }
+    if (
+      ts.isBinaryExpression(inner) &&
+      [
+        ts.SyntaxKind.PlusToken,
+        ts.SyntaxKind.BarBarToken,
+        ts.SyntaxKind.QuestionQuestionToken,
+      ].includes(inner.operatorToken.kind)
+    ) {
+      return firstTainted([inner.left, inner.right]);
+    }
+
+    return null;
+  }
+
+  /**
+   * Bind names from a destructuring pattern. Picked properties are clean,
+   * except { user } = req, which reads the source itself.
+   */
+  function bindPattern(
+    pattern: ts.BindingName,
+    initializer: ts.Expression | undefined,
+    declaration: ts.Node,
+    names: Map<string, Taint | null>,
+  ): void {
+    if (ts.isIdentifier(pattern)) {
+      names.set(
+        pattern.text,
+        initializer ? through(taintOf(initializer), declaration) : null,
+      );
+      return;
+    }
+
+    pattern.elements.forEach((element) => {
+      if (ts.isOmittedExpression(element)) {
+        return;
+      }
+
+      const property =
+        ts.isObjectBindingPattern(pattern) && !element.dotDotDotToken
+          ? (element.propertyName ?? element.name)
+          : undefined;
+      const taint =
+        initializer && property && ts.isIdentifier(property)
+          ? memberTaint(initializer, property.text, declaration)
+          : null;
+
+      if (ts.isIdentifier(element.name)) {
+        names.set(element.name.text, taint);
+      } else {
+        bindPattern(element.name, undefined, declaration, names);
+      }
+    });
+  }
+
+  function record(node: ts.Node): void {
+    if (ts.isVariableDeclaration(node)) {
+      bindPattern(
+        node.name,
+        node.initializer,
+        ts.isVariableDeclarationList(node.parent) ? node.parent : node,
+        bindings(scopeOf(node)),
+      );
+    } else if (ts.isParameter(node)) {
+      bindPattern(node.name, undefined, node, bindings(scopeOf(node)));
+    } else if (
+      ts.isBinaryExpression(node) &&
+      node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      ts.isIdentifier(node.left)
+    ) {
+      const name = node.left.text;
+      let scope: ts.Node | undefined = scopeOf(node);
+      while (scope && !scopes.get(scope)?.has(name)) {
+        scope = ts.isSourceFile(scope) ? undefined : scopeOf(scope);
+      }
+      bindings(scope ?? scopeOf(node)).set(
+        name,
+        through(taintOf(node.right), node),
+      );
+    }
+  }
+
+  return {
+    record,
+    taintOf,
+    pathTo: (taint, sink) => [...taint.steps, step(sink)],
+  };
+}
@@ -2,6 +2,19 @@
  * Type definitions for vibecurb scanner
  */
 
+import { ResolvedConfig } from "../config/types";
+import { ScanCache } from "./cache";
+import { Project } from "./framework";
+import { NetworkPattern } from "./network-patterns";
+import { Pattern } from "./patterns";
+
+export type SeverityFilter = "error" | "warning" | "all";
+
+export type RuleSetting = "error" | "warning" | "off";
+
+/** Result of checking a secret against its provider with --verify */
+export type VerificationStatus = "live" | "revoked" | "unknown";
+
 export interface Finding {
   readonly filePath: string;
   readonly lineNumber: number;
@@ -11,17 +24,85 @@ export interface Finding {
   readonly severity: "error" | "warning";
   readonly message: string;
   readonly fixSuggestion: string;
+  /** 0..1 for heuristic rules such as entropy; absent for exact patterns */
+  readonly confidence?: number;
+  /** Set by --verify for rules that have a verifier */
+  readonly verified?: VerificationStatus;
+  /** Source-to-sink path, for findings from data-flow tracking */
+  readonly dataFlow?: readonly DataFlowStep[];
+}
+
+/** One hop on the path from a tainted source to a sink */
+export interface DataFlowStep {
+  readonly lineNumber: number;
+  readonly column: number;
+  readonly expression: string;
 }
 
-export interface ScanResult {
+/** Why a file was not scanned */
+export type SkipReason =
+  "binary" | "too large" | "minified" | "generated" | "lockfile";
+
+export interface ScanResult<T extends Finding = Finding> {
   readonly filePath: string;
-  readonly findings: readonly Finding[];
+  readonly findings: readonly T[];
   readonly error?: string;
+  /** Set for files the scan engine did not read */
+  readonly skipped?: SkipReason;
+}
+
+export interface EntropyOptions {
+  /** Shortest string literal that is checked */
+  readonly minLength: number;
+  /** Bits per character above which base64-like strings are reported */
+  readonly base64Threshold: number;
+  /** Bits per character above which hex strings are reported */
+  readonly hexThreshold: number;
+}
+
+export interface FileScanOptions {
+  readonly severity?: SeverityFilter;
+  /** Per-rule settings keyed by rule id */
+  readonly rules?: Readonly<Record<string, RuleSetting>>;
+  readonly entropy?: EntropyOptions;
+  /** Rule pack rules that apply to the file, run after the built-in ones */
+  readonly customPatterns?: readonly Pattern[];
+  readonly customNetworkPatterns?: readonly NetworkPattern[];
+  /** Project the file belongs to, for telling client code apart */
+  readonly project?: Project;
 }
 
 export interface ScanOptions {
   readonly path: string;
   readonly extensions?: readonly string[];
+  /** Globs for directories and files to skip */
   readonly exclude?: readonly string[];
-  readonly severity?: "error" | "warning" | "all";
+  /** Globs files must match to be scanned */
+  readonly include?: readonly string[];
+  /** Only scan these files and directories under path */
+  readonly files?: readonly string[];
+  /** Honor .gitignore, .git/info/exclude and .vibecurbignore; default true */
+  readonly ignoreFiles?: boolean;
+  /** Also scan lockfiles, generated and minified files */
+  readonly scanGenerated?: boolean;
+  readonly severity?: SeverityFilter;
+  readonly config?: ResolvedConfig;
+  /** Worker threads for pattern matching; 0 scans on the main thread */
+  readonly workers?: number;
+  /** Files larger than this many bytes are skipped */
+  readonly maxFileSize?: number;
+  /** Reuse findings of unchanged files; the caller saves it */
+  readonly cache?: ScanCache;
+}
+
+/** Options for scanning content that is not read from disk */
+export interface TextScanOptions {
+  /**
+   * Labels findings and stands for the file the content belongs to, which
+   * picks its language, client-side checks and per-file config. Relative
+   * names are resolved against the working directory. Default: "<stdin>".
+   */
+  readonly filename?: string;
+  readonly severity?: SeverityFilter;
+  readonly config?: ResolvedConfig;
 }
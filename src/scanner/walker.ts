@@ -0,0 +1,193 @@
+/**
+ * Directory walker shared by the secret and network scans
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { STATE_DIR_NAME } from "../fixer/journal";
+import { matchesAnyGlob } from "../utils/glob";
+import {
+  IgnoreRule,
+  inheritedIgnoreRules,
+  isIgnored,
+  readIgnoreRules,
+} from "./ignore";
+
+export interface WalkOptions {
+  /** File or directory to walk */
+  readonly path: string;
+  /** Lowercase extensions including the dot */
+  readonly extensions: readonly string[];
+  /** Also walk files this accepts, whatever their extension */
+  readonly alsoWalk?: (filePath: string) => boolean;
+  /** Globs for directories and files to skip, relative to path */
+  readonly exclude: readonly string[];
+  /** When given, only files matching one of these globs are walked */
+  readonly include?: readonly string[];
+  /** Honor .gitignore, .git/info/exclude and .vibecurbignore (default) */
+  readonly ignoreFiles?: boolean;
+  /** When given, only these files and directories under path are walked */
+  readonly only?: readonly string[];
+  /** Called for directories that cannot be read; they are skipped */
+  readonly onUnreadable?: (dirPath: string) => void;
+}
+
+interface PendingDir {
+  readonly dir: string;
+  /** Ignore rules from this directory's ancestors */
+  readonly rules: readonly IgnoreRule[];
+}
+
+/**
+ * Yield the files under a path that pass the extension, glob and ignore
+ * file filters, reading directories asynchronously. A file path is yielded
+ * as is. Paths in options.only that are missing or filtered out are left
+ * out.
+ */
+export async function* walkFiles(options: WalkOptions): AsyncGenerator<string> {
+  const stat = await fs.promises.stat(options.path);
+  if (stat.isFile()) {
+    yield options.path;
+    return;
+  }
+  if (options.only) {
+    yield* walkPaths(options, options.only);
+    return;
+  }
+
+  const rules =
+    options.ignoreFiles !== false
+      ? await inheritedIgnoreRules(options.path)
+      : [];
+  yield* walkTree(options, { dir: options.path, rules });
+}
+
+async function* walkPaths(
+  options: WalkOptions,
+  paths: readonly string[],
+): AsyncGenerator<string> {
+  for (const fullPath of new Set(paths)) {
+    const stat = await fs.promises.stat(fullPath).catch(() => null);
+    const rules = stat && (await rulesAbove(options, fullPath));
+    if (
+      !stat ||
+      !rules ||
+      isSkipped(options, fullPath, stat.isDirectory(), rules)
+    ) {
+      continue;
+    }
+
+    if (stat.isDirectory()) {
+      yield* walkTree(options, { dir: fullPath, rules });
+    } else if (isWalkedFile(options, fullPath)) {
+      yield fullPath;
+    }
+  }
+}
+
+/**
+ * Ignore rules that apply to a path under options.path, or null when the
+ * path is outside it or a directory above it is skipped
+ */
+async function rulesAbove(
+  options: WalkOptions,
+  fullPath: string,
+): Promise<IgnoreRule[] | null> {
+  const relative = path.relative(options.path, fullPath);
+  if (
+    relative === "" ||
+    relative.startsWith("..") ||
+    path.isAbsolute(relative)
+  ) {
+    return null;
+  }
+
+  const useIgnoreFiles = options.ignoreFiles !== false;
+  let rules = useIgnoreFiles ? await inheritedIgnoreRules(options.path) : [];
+  let dir = options.path;
+  for (const segment of relative.split(path.sep).slice(0, -1)) {
+    if (useIgnoreFiles) {
+      rules = [...rules, ...(await readIgnoreRules(dir))];
+    }
+    dir = path.join(dir, segment);
+    if (isSkipped(options, dir, true, rules)) {
+      return null;
+    }
+  }
+
+  return useIgnoreFiles ? [...rules, ...(await readIgnoreRules(dir))] : rules;
+}
+
+function relativeTo(options: WalkOptions, fullPath: string): string {
+  return path.relative(options.path, fullPath).split(path.sep).join("/");
+}
+
+function isSkipped(
+  options: WalkOptions,
+  fullPath: string,
+  isDirectory: boolean,
+  rules: readonly IgnoreRule[],
+): boolean {
+  // The state directory holds secrets from the fix journal and cache
+  return (
+    (isDirectory && path.basename(fullPath) === STATE_DIR_NAME) ||
+    matchesAnyGlob(relativeTo(options, fullPath), options.exclude) ||
+    isIgnored(fullPath, isDirectory, rules)
+  );
+}
+
+function isWalkedFile(options: WalkOptions, fullPath: string): boolean {
+  return (
+    (options.extensions.includes(path.extname(fullPath).toLowerCase()) ||
+      (options.alsoWalk?.(fullPath) ?? false)) &&
+    (!options.include?.length ||
+      matchesAnyGlob(relativeTo(options, fullPath), options.include))
+  );
+}
+
+async function* walkTree(
+  options: WalkOptions,
+  start: PendingDir,
+): AsyncGenerator<string> {
+  const useIgnoreFiles = options.ignoreFiles !== false;
+  const pending: PendingDir[] = [start];
+
+  while (pending.length > 0) {
+    const { dir, rules: parentRules } = pending.pop() as PendingDir;
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      options.onUnreadable?.(dir);
+      continue;
+    }
+
+    const rules = useIgnoreFiles
+      ? [...parentRules, ...(await readIgnoreRules(dir))]
+      : parentRules;
+
+    const subdirectories: string[] = [];
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const isDirectory = entry.isDirectory();
+      if (isSkipped(options, fullPath, isDirectory, rules)) {
+        continue;
+      }
+
+      if (isDirectory) {
+        subdirectories.push(fullPath);
+      } else if (isWalkedFile(options, fullPath)) {
+        yield fullPath;
+      }
+    }
+
+    // Reversed so directories are visited in readdir order
+    pending.push(
+      ...subdirectories.reverse().map((subdirectory) => ({
+        dir: subdirectory,
+        rules,
+      })),
+    );
+  }
+}
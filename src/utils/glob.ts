@@ -0,0 +1,103 @@
+/**
+ * Minimal glob matcher
+ * Supports `**`, `*`, `?`, `[...]` and `{a,b}` against forward-slash paths
+ */
+
+const cache = new Map<string, RegExp>();
+
+/**
+ * Convert a glob to an anchored regular expression.
+ * Globs without a slash match the file name at any depth, like .gitignore.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const cached = cache.get(glob);
+  if (cached) {
+    return cached;
+  }
+
+  let pattern = glob.replace(/\\/g, "/");
+  if (pattern.startsWith("./")) {
+    pattern = pattern.slice(2);
+  }
+  if (pattern.endsWith("/")) {
+    pattern += "**";
+  }
+  if (!pattern.includes("/")) {
+    pattern = `**/${pattern}`;
+  } else if (pattern.startsWith("/")) {
+    pattern = pattern.slice(1);
+  }
+
+  let source = "";
+  let inGroup = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+        const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === "/";
+        if (atSegmentStart && atSegmentEnd) {
+          // `**/` matches zero or more whole directories
+          if (pattern[i + 2] === "/") {
+            source += "(?:.*/)?";
+            i += 2;
+          } else {
+            source += ".*";
+            i += 1;
+          }
+          continue;
+        }
+        i += 1;
+      }
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        let body = pattern.slice(i + 1, end);
+        if (body.startsWith("!")) {
+          body = `^${body.slice(1)}`;
+        }
+        source += `[${body.replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      inGroup++;
+      source += "(?:";
+    } else if (char === "}" && inGroup > 0) {
+      inGroup--;
+      source += ")";
+    } else if (char === "," && inGroup > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  cache.set(glob, regex);
+  return regex;
+}
+
+/**
+ * Check whether a relative path matches a glob
+ */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+  const normalized = relativePath.replace(/\\/g, "/").replace(/^\.\//, "");
+  return globToRegExp(glob).test(normalized);
+}
+
+/**
+ * Check whether a relative path matches any of the given globs
+ */
+export function matchesAnyGlob(
+  relativePath: string,
+  globs: readonly string[],
+): boolean {
+  return globs.some((glob) => matchesGlob(relativePath, glob));
+}
@@ -0,0 +1,38 @@
+/**
+ * JSON-RPC 2.0 messages, shared by the language server and the MCP server
+ */
+
+export interface Message {
+  readonly jsonrpc: "2.0";
+  readonly id?: number | string | null;
+  readonly method?: string;
+  readonly params?: unknown;
+  readonly result?: unknown;
+  readonly error?: ResponseError;
+}
+
+export interface ResponseError {
+  readonly code: number;
+  readonly message: string;
+}
+
+export const ERROR_CODES = {
+  ParseError: -32700,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
+
+/**
+ * Thrown by a request handler to answer with a JSON-RPC error code
+ */
+export class RequestError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
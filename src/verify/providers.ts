@@ -0,0 +1,207 @@
+/**
+ * Built-in verifiers for GitHub, Stripe, Slack and AWS
+ * Each calls the provider's identity endpoint and never changes anything.
+ */
+
+import * as crypto from "crypto";
+import { toRuleId } from "../scanner/rules";
+import { Finding, VerificationStatus } from "../scanner/types";
+import {
+  fetchWithTimeout,
+  statusFromResponse,
+  Verifier,
+  VerifyContext,
+} from "./verifier";
+
+const USER_AGENT = "vibecurb";
+
+// Slack auth.test errors that mean the token no longer works
+const SLACK_REVOKED_ERRORS = [
+  "invalid_auth",
+  "not_authed",
+  "account_inactive",
+  "token_revoked",
+  "token_expired",
+];
+
+export const githubVerifier: Verifier = {
+  provider: "github",
+  rules: ["github-token"],
+  defaultBaseUrl: "https://api.github.com",
+  async verify(finding, { baseUrl, timeout }) {
+    const response = await fetchWithTimeout(
+      `${baseUrl}/user`,
+      {
+        headers: {
+          Authorization: `Bearer ${finding.match}`,
+          Accept: "application/vnd.github+json",
+          "User-Agent": USER_AGENT,
+        },
+      },
+      timeout,
+    );
+    return statusFromResponse(response);
+  },
+};
+
+export const stripeVerifier: Verifier = {
+  provider: "stripe",
+  rules: ["stripe-key", "stripe-test-key"],
+  defaultBaseUrl: "https://api.stripe.com",
+  async verify(finding, { baseUrl, timeout }) {
+    const response = await fetchWithTimeout(
+      `${baseUrl}/v1/account`,
+      {
+        headers: {
+          Authorization: `Bearer ${finding.match}`,
+          "User-Agent": USER_AGENT,
+        },
+      },
+      timeout,
+    );
+    // Restricted keys without account access still authenticate (403)
+    return statusFromResponse(response, [200, 403]);
+  },
+};
+
+export const slackVerifier: Verifier = {
+  provider: "slack",
+  rules: ["slack-token"],
+  defaultBaseUrl: "https://slack.com",
+  async verify(finding, { baseUrl, timeout }) {
+    // Slack tokens have at least three dash-separated parts after the
+    // prefix; a shorter match is cut off and would always fail
+    if (finding.match.split("-").length < 4) {
+      return "unknown";
+    }
+
+    const response = await fetchWithTimeout(
+      `${baseUrl}/api/auth.test`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${finding.match}`,
+          "User-Agent": USER_AGENT,
+        },
+      },
+      timeout,
+    );
+    if (!response?.ok) {
+      return "unknown";
+    }
+
+    // Slack answers 200 either way and reports the result in the body
+    const body = (await response.json()) as { ok?: boolean; error?: string };
+    if (body.ok) {
+      return "live";
+    }
+    return SLACK_REVOKED_ERRORS.includes(body.error ?? "")
+      ? "revoked"
+      : "unknown";
+  },
+};
+
+function sha256(data: string): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: crypto.BinaryLike, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * Find the secret access key reported in the same file
+ */
+function findAwsSecret(related: readonly Finding[]): string | null {
+  const secret = related.find((f) => toRuleId(f.pattern) === "aws-secret-key");
+  return secret?.match.match(/["']([a-zA-Z0-9/+=]{40})["']/)?.[1] ?? null;
+}
+
+/**
+ * Call STS GetCallerIdentity, signed with Signature Version 4
+ */
+async function getCallerIdentity(
+  accessKeyId: string,
+  secretKey: string,
+  { baseUrl, timeout }: VerifyContext,
+): Promise<VerificationStatus> {
+  const region = "us-east-1";
+  const service = "sts";
+  const body = "Action=GetCallerIdentity&Version=2011-06-15";
+  const contentType = "application/x-www-form-urlencoded; charset=utf-8";
+  const host = new URL(baseUrl).host;
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.substring(0, 8);
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const signedHeaders = "content-type;host;x-amz-date";
+
+  const canonicalRequest = [
+    "POST",
+    "/",
+    "",
+    `content-type:${contentType}`,
+    `host:${host}`,
+    `x-amz-date:${amzDate}`,
+    "",
+    signedHeaders,
+    sha256(body),
+  ].join("\n");
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256(canonicalRequest),
+  ].join("\n");
+  const signingKey = [
+    dateStamp,
+    region,
+    service,
+    "aws4_request",
+  ].reduce<crypto.BinaryLike>(
+    (key, part) => hmac(key, part),
+    `AWS4${secretKey}`,
+  );
+  const signature = hmac(signingKey, stringToSign).toString("hex");
+
+  const response = await fetchWithTimeout(
+    `${baseUrl}/`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": contentType,
+        "X-Amz-Date": amzDate,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        "User-Agent": USER_AGENT,
+      },
+      body,
+    },
+    timeout,
+  );
+  if (response?.status !== 403) {
+    return statusFromResponse(response);
+  }
+
+  // A wrong secret (SignatureDoesNotMatch) says nothing about the key itself
+  const text = await response.text();
+  return text.includes("InvalidClientTokenId") ? "revoked" : "unknown";
+}
+
+export const awsVerifier: Verifier = {
+  provider: "aws",
+  rules: ["aws-access-key-id"],
+  defaultBaseUrl: "https://sts.amazonaws.com",
+  async verify(finding, context) {
+    // An access key id can only be checked together with its secret
+    const secretKey = findAwsSecret(context.related);
+    return secretKey
+      ? getCallerIdentity(finding.match, secretKey, context)
+      : "unknown";
+  },
+};
+
+export const BUILT_IN_VERIFIERS: readonly Verifier[] = [
+  githubVerifier,
+  stripeVerifier,
+  slackVerifier,
+  awsVerifier,
+];
@@ -0,0 +1,56 @@
+/**
+ * Verifier interface and HTTP helpers shared by the providers
+ */
+
+import { Finding, VerificationStatus } from "../scanner/types";
+
+export interface VerifyContext {
+  readonly baseUrl: string;
+  readonly timeout: number;
+  /** Other findings in the same file, e.g. the secret half of an AWS key */
+  readonly related: readonly Finding[];
+}
+
+export interface Verifier {
+  /** Provider name used as the key in verify.baseUrls */
+  readonly provider: string;
+  /** Rule ids this verifier handles */
+  readonly rules: readonly string[];
+  readonly defaultBaseUrl: string;
+  verify(finding: Finding, context: VerifyContext): Promise<VerificationStatus>;
+}
+
+/**
+ * Fetch with a timeout; network errors and timeouts resolve to null
+ */
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeout: number,
+): Promise<Response | null> {
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(timeout) });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map an HTTP status to a verification status
+ */
+export function statusFromResponse(
+  response: Response | null,
+  live: readonly number[] = [200],
+  revoked: readonly number[] = [401],
+): VerificationStatus {
+  if (!response) {
+    return "unknown";
+  }
+  if (live.includes(response.status)) {
+    return "live";
+  }
+  if (revoked.includes(response.status)) {
+    return "revoked";
+  }
+  return "unknown";
+}
@@ -0,0 +1,87 @@
+/**
+ * Live secret verification
+ * Verifiers ask the provider whether a detected secret still works. Each one
+ * handles a set of rule ids; rules without a verifier are left unverified.
+ */
+
+import { toRuleId } from "../scanner/rules";
+import { Finding, VerificationStatus } from "../scanner/types";
+import { BUILT_IN_VERIFIERS } from "./providers";
+import { Verifier, VerifyContext } from "./verifier";
+
+export interface VerifyOptions {
+  /** Base URL per provider, e.g. { github: "http://localhost:4000" } */
+  readonly baseUrls: Readonly<Record<string, string>>;
+  /** Request timeout in milliseconds */
+  readonly timeout: number;
+}
+
+export const DEFAULT_VERIFY_OPTIONS: VerifyOptions = {
+  baseUrls: {},
+  timeout: 5000,
+};
+
+// Requests in flight at once
+const CONCURRENCY = 4;
+
+const verifiers = new Map<string, Verifier>();
+BUILT_IN_VERIFIERS.forEach(registerVerifier);
+
+/**
+ * Register a verifier for its rules, replacing any earlier one
+ */
+export function registerVerifier(verifier: Verifier): void {
+  verifier.rules.forEach((rule) => verifiers.set(toRuleId(rule), verifier));
+}
+
+export function getVerifier(rule: string): Verifier | undefined {
+  return verifiers.get(toRuleId(rule));
+}
+
+/**
+ * Verify findings that have a verifier. Each distinct secret is checked once.
+ */
+export async function verifyFindings<T extends Finding>(
+  findings: readonly T[],
+  options: VerifyOptions = DEFAULT_VERIFY_OPTIONS,
+): Promise<T[]> {
+  const checks = new Map<string, () => Promise<VerificationStatus>>();
+  const keys = findings.map((finding) => {
+    const verifier = getVerifier(finding.pattern);
+    if (!verifier) {
+      return null;
+    }
+
+    const key = `${verifier.provider}\u0000${finding.match}`;
+    if (!checks.has(key)) {
+      const context: VerifyContext = {
+        baseUrl: (
+          options.baseUrls[verifier.provider] ?? verifier.defaultBaseUrl
+        ).replace(/\/+$/, ""),
+        timeout: options.timeout,
+        related: findings.filter((f) => f.filePath === finding.filePath),
+      };
+      checks.set(key, () =>
+        verifier.verify(finding, context).catch(() => "unknown" as const),
+      );
+    }
+    return key;
+  });
+
+  const statuses = new Map<string, VerificationStatus>();
+  const queue = Array.from(checks);
+
+  async function worker(): Promise<void> {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      const [key, check] = next;
+      statuses.set(key, await check());
+    }
+  }
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+  return findings.map((finding, index) => {
+    const key = keys[index];
+    return key ? { ...finding, verified: statuses.get(key) } : finding;
+  });
+}
@@ -0,0 +1,10 @@
+/**
+ * Package version, read from package.json (works from src/ and dist/)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export const VERSION: string = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "..", "package.json"), "utf8"),
+).version;
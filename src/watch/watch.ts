@@ -0,0 +1,333 @@
+/**
+ * Watch mode - rescans the files that change and reports which findings
+ * appeared or were resolved since the previous scan
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  filterBaseline,
+  fingerprintFindings,
+  loadBaseline,
+} from "../scanner/baseline";
+import { streamDirectory } from "../scanner/detector";
+import {
+  IGNORE_FILE_NAME,
+  IgnoreRule,
+  inheritedIgnoreRules,
+  isIgnored,
+  readIgnoreRules,
+} from "../scanner/ignore";
+import { streamNetworkDirectory } from "../scanner/network-detector";
+import { Finding, ScanOptions, ScanResult } from "../scanner/types";
+import { STATE_DIR_NAME } from "../fixer/journal";
+import { matchesAnyGlob } from "../utils/glob";
+
+export const DEFAULT_DEBOUNCE_MS = 200;
+
+// Changes here never affect findings; the state directory changes on
+// every cache save
+const UNWATCHED_DIRS = [".git", STATE_DIR_NAME];
+// A change to one of these can change which files are scanned
+const RESCAN_ALL_FILES = [".gitignore", IGNORE_FILE_NAME];
+
+export interface WatchUpdate {
+  /** Every current finding, sorted by file */
+  readonly findings: readonly Finding[];
+  /** Findings that were not there before this scan; none on the first */
+  readonly added: readonly Finding[];
+  /** Findings that this scan no longer found */
+  readonly resolved: readonly Finding[];
+  /** Files that could not be scanned */
+  readonly errors: readonly ScanResult[];
+}
+
+export interface WatchSession {
+  /**
+   * Scan changed files and directories with the secret and network
+   * scanners, or the whole tree when paths is undefined
+   */
+  scan(paths?: readonly string[]): Promise<WatchUpdate>;
+}
+
+export interface Watcher {
+  /** Settles once every directory is watched */
+  readonly ready: Promise<void>;
+  close(): void;
+}
+
+function isWithin(filePath: string, paths: readonly string[]): boolean {
+  return paths.some((p) => {
+    const relative = path.relative(p, filePath);
+    return !relative.startsWith("..") && !path.isAbsolute(relative);
+  });
+}
+
+/**
+ * Keep the findings of a directory between scans. Baselined findings are
+ * left out.
+ */
+export function createWatchSession(options: ScanOptions): WatchSession {
+  const baselinePath = options.config?.baselinePath;
+  const baseline = baselinePath && loadBaseline(baselinePath);
+  const byFile = new Map<string, readonly Finding[]>();
+  const errors = new Map<string, ScanResult>();
+  let first = true;
+
+  function accept(findings: readonly Finding[]): readonly Finding[] {
+    return baselinePath && baseline
+      ? filterBaseline(findings, baseline, path.dirname(baselinePath))
+      : findings;
+  }
+
+  return {
+    async scan(paths) {
+      const scanOptions = { ...options, files: paths };
+      const scanned = new Map<string, Finding[]>();
+      const scannedErrors = new Map<string, ScanResult>();
+
+      const streams: AsyncIterable<ScanResult>[] = [
+        streamDirectory(scanOptions),
+        streamNetworkDirectory(scanOptions),
+      ];
+      for (const stream of streams) {
+        for await (const result of stream) {
+          if (result.error) {
+            scannedErrors.set(result.filePath, result);
+          } else if (!result.skipped) {
+            scanned.set(result.filePath, [
+              ...(scanned.get(result.filePath) ?? []),
+              ...accept(result.findings),
+            ]);
+          }
+        }
+      }
+
+      // Files in scope that were not scanned again were deleted or are
+      // now filtered out
+      const inScope = (filePath: string) =>
+        paths === undefined || isWithin(filePath, paths);
+      const before: Finding[] = [];
+      Array.from(byFile.keys())
+        .filter(inScope)
+        .forEach((filePath) => {
+          before.push(...(byFile.get(filePath) ?? []));
+          byFile.delete(filePath);
+        });
+      Array.from(errors.keys())
+        .filter(inScope)
+        .forEach((filePath) => errors.delete(filePath));
+
+      const after: Finding[] = [];
+      scanned.forEach((findings, filePath) => {
+        after.push(...findings);
+        if (findings.length > 0) {
+          byFile.set(filePath, findings);
+        }
+      });
+      scannedErrors.forEach((result, filePath) => errors.set(filePath, result));
+
+      // Fingerprints ignore line numbers, so moved findings are not new
+      const beforeKeys = fingerprintFindings(before, options.path);
+      const afterKeys = fingerprintFindings(after, options.path);
+      const sortedFiles = Array.from(byFile.keys()).sort((a, b) =>
+        a.localeCompare(b),
+      );
+
+      const isFirst = first;
+      first = false;
+
+      return {
+        findings: sortedFiles.flatMap((filePath) => byFile.get(filePath) ?? []),
+        added: isFirst
+          ? []
+          : after.filter((_, i) => !beforeKeys.includes(afterKeys[i])),
+        resolved: before.filter((_, i) => !afterKeys.includes(beforeKeys[i])),
+        errors: Array.from(errors.values()),
+      };
+    },
+  };
+}
+
+/**
+ * Watch a directory tree and call onChange with the changed paths once
+ * events have been quiet for debounceMs. paths is undefined when the whole
+ * tree should be rescanned. Calls never overlap: changes made during one
+ * are passed to the next. onChange handles its own errors.
+ *
+ * Each directory gets its own watcher, as recursive fs.watch needs Node 20
+ * on Linux. Directories matching exclude (relative to dir) or ignored by
+ * .gitignore and .vibecurbignore (unless ignoreFiles is false) are not
+ * watched; a changed ignore file rebuilds the watchers.
+ */
+export function watchTree(
+  dir: string,
+  onChange: (paths: readonly string[] | undefined) => Promise<void>,
+  options: {
+    debounceMs?: number;
+    exclude?: readonly string[];
+    ignoreFiles?: boolean;
+    onError?: (error: Error) => void;
+  } = {},
+): Watcher {
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const useIgnoreFiles = options.ignoreFiles !== false;
+  const watchers = new Map<string, fs.FSWatcher>();
+  // Ignore rules for the entries of each watched directory
+  const rulesByDir = new Map<string, readonly IgnoreRule[]>();
+  // Bumped when the watchers are rebuilt, so older walks stop
+  let generation = 0;
+  let pending = new Set<string>();
+  let rescanAll = false;
+  let running = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(flush, debounceMs);
+  };
+
+  async function flush(): Promise<void> {
+    timer = undefined;
+    if (running) {
+      // Scheduled again when the running call finishes
+      return;
+    }
+
+    const paths = rescanAll ? undefined : Array.from(pending);
+    pending = new Set();
+    rescanAll = false;
+    running = true;
+    try {
+      await onChange(paths);
+    } finally {
+      running = false;
+      if (rescanAll || pending.size > 0) {
+        schedule();
+      }
+    }
+  }
+
+  const isUnwatched = (dirPath: string, rules: readonly IgnoreRule[]) => {
+    const relative = path.relative(dir, dirPath).split(path.sep).join("/");
+    return (
+      UNWATCHED_DIRS.includes(path.basename(dirPath)) ||
+      matchesAnyGlob(relative, options.exclude ?? []) ||
+      isIgnored(dirPath, true, rules)
+    );
+  };
+
+  // Close the watchers of a directory that was removed, and those below it
+  const unwatch = (dirPath: string) =>
+    watchers.forEach((watcher, watched) => {
+      if (isWithin(watched, [dirPath])) {
+        watcher.close();
+        watchers.delete(watched);
+        rulesByDir.delete(watched);
+      }
+    });
+
+  async function watchDir(
+    dirPath: string,
+    parentRules: readonly IgnoreRule[],
+    walk: number,
+  ): Promise<void> {
+    const rules = useIgnoreFiles
+      ? [...parentRules, ...(await readIgnoreRules(dirPath))]
+      : parentRules;
+
+    let entries: fs.Dirent[];
+    let watcher: fs.FSWatcher;
+    try {
+      entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+      if (walk !== generation || watchers.has(dirPath)) {
+        return;
+      }
+      watcher = fs.watch(dirPath, (_event, filename) =>
+        onEvent(dirPath, filename),
+      );
+    } catch (error) {
+      // Subdirectories may be removed before they are watched
+      if (dirPath === dir) {
+        throw error;
+      }
+      return;
+    }
+    watcher.on("error", (error) => {
+      if (fs.existsSync(dirPath)) {
+        options.onError?.(error);
+      } else {
+        unwatch(dirPath);
+      }
+    });
+    watchers.set(dirPath, watcher);
+    rulesByDir.set(dirPath, rules);
+
+    for (const entry of entries) {
+      const subdirectory = path.join(dirPath, entry.name);
+      if (entry.isDirectory() && !isUnwatched(subdirectory, rules)) {
+        await watchDir(subdirectory, rules, walk);
+      }
+    }
+  }
+
+  function watchAll(): Promise<void> {
+    watchers.forEach((watcher) => watcher.close());
+    watchers.clear();
+    rulesByDir.clear();
+    const walk = ++generation;
+
+    const ready = (
+      useIgnoreFiles ? inheritedIgnoreRules(dir) : Promise.resolve([])
+    ).then((rules) => watchDir(dir, rules, walk));
+    ready.catch((error: Error) => options.onError?.(error));
+    return ready;
+  }
+
+  function onEvent(dirPath: string, filename: string | null): void {
+    if (!filename) {
+      rescanAll = true;
+      schedule();
+      return;
+    }
+
+    const changed = path.join(dirPath, filename);
+    if (RESCAN_ALL_FILES.includes(filename)) {
+      rescanAll = true;
+      if (useIgnoreFiles) {
+        // It may ignore directories that are watched, or stop ignoring some
+        watchAll();
+      }
+      schedule();
+      return;
+    }
+
+    const stat = fs.statSync(changed, { throwIfNoEntry: false });
+    const rules = rulesByDir.get(dirPath) ?? [];
+    if (!stat) {
+      unwatch(changed);
+    } else if (stat.isDirectory()) {
+      if (isUnwatched(changed, rules)) {
+        return;
+      }
+      watchDir(changed, rules, generation).catch((error: Error) =>
+        options.onError?.(error),
+      );
+    }
+    pending.add(changed);
+    schedule();
+  }
+
+  const ready = watchAll();
+
+  return {
+    ready,
+    close() {
+      clearTimeout(timer);
+      // Stops walks that are still running
+      generation++;
+      watchers.forEach((watcher) => watcher.close());
+      watchers.clear();
+    },
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Tests for inline suppressions and the baseline file
+ */
+
+import { scanFile } from "../src/scanner/detector";
+import { scanNetworkSecurity } from "../src/scanner/network-detector";
+import {
+  createBaseline,
+  filterBaseline,
+  loadBaseline,
+  writeBaseline,
+} from "../src/scanner/baseline";
+import { useTempDir } from "./helpers/temp-dir";
+import * as path from "path";
+
+const { dir: TEST_DIR, writeFile } = useTempDir("baseline");
+const API_KEY_LINE = 'const apiKey = "sk-12345678901234567890abcdef";';
+
+describe("Suppressions and baseline", () => {
+  describe("inline suppressions", () => {
+    it("should honor vibecurb-ignore-next-line for the named rule", () => {
+      const file = writeFile(
+        "next-line.js",
+        `// vibecurb-ignore-next-line api-key-generic\n${API_KEY_LINE}\n${API_KEY_LINE}`,
+      );
+
+      const findings = scanFile(file);
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].lineNumber).toBe(3);
+    });
+
+    it("should honor a same-line vibecurb-ignore", () => {
+      const file = writeFile(
+        "same-line.js",
+        `${API_KEY_LINE} // vibecurb-ignore api-key-generic -- rotated`,
+      );
+
+      expect(scanFile(file)).toEqual([]);
+    });
+
+    it("should only suppress the listed rules", () => {
+      const file = writeFile(
+        "other-rule.js",
+        `${API_KEY_LINE} // vibecurb-ignore email-address`,
+      );
+
+      expect(scanFile(file).map((f) => f.pattern)).toEqual([
+        "API Key (Generic)",
+      ]);
+    });
+
+    it("should suppress network findings", () => {
+      const file = writeFile(
+        "network.js",
+        "// vibecurb-ignore-next-line\ndebugger;\ndebugger;",
+      );
+
+      const findings = scanNetworkSecurity(file);
+
+      expect(findings.map((f) => f.lineNumber)).toEqual([3]);
+    });
+  });
+
+  describe("baseline", () => {
+    it("should hide baselined findings even when lines move", () => {
+      const file = writeFile("legacy.js", API_KEY_LINE);
+      const baselinePath = path.join(TEST_DIR, ".vibecurb-baseline.json");
+      writeBaseline(baselinePath, createBaseline(scanFile(file), TEST_DIR));
+
+      writeFile(
+        "legacy.js",
+        `const a = 1;\n${API_KEY_LINE}\nconst token = "ghp_${"a".repeat(36)}";`,
+      );
+
+      const baseline = loadBaseline(baselinePath);
+      const remaining = filterBaseline(scanFile(file), baseline!, TEST_DIR);
+
+      expect(remaining.map((f) => f.pattern)).toEqual(["GitHub Token"]);
+    });
+
+    it("should not store secret values", () => {
+      const file = writeFile("legacy.js", API_KEY_LINE);
+      const baseline = createBaseline(scanFile(file), TEST_DIR);
+
+      expect(JSON.stringify(baseline)).not.toContain("sk-1234");
+      expect(baseline.entries[0]).toMatchObject({
+        rule: "api-key-generic",
+        file: "legacy.js",
+        line: 1,
+      });
+    });
+
+    it("should report a repeated secret once it appears again", () => {
+      const file = writeFile("dup.js", API_KEY_LINE);
+      const baseline = createBaseline(scanFile(file), TEST_DIR);
+
+      writeFile("dup.js", `${API_KEY_LINE}\n${API_KEY_LINE}`);
+
+      expect(filterBaseline(scanFile(file), baseline, TEST_DIR)).toHaveLength(
+        1,
+      );
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for .vibecurbrc.json loading and rule policy
+ */
+
+import {
+  ConfigError,
+  findConfigFile,
+  loadConfig,
+  resolveConfig,
+} from "../src/config/loader";
+import { resolveFilePolicy } from "../src/config/policy";
+import { scanDirectory } from "../src/scanner/detector";
+import { matchesGlob } from "../src/utils/glob";
+import { useTempDir } from "./helpers/temp-dir";
+import * as fs from "fs";
+import * as path from "path";
+
+const { dir: TEST_DIR } = useTempDir("config");
+
+function writeConfig(dir: string, config: unknown): string {
+  const configPath = path.join(dir, ".vibecurbrc.json");
+  fs.writeFileSync(configPath, JSON.stringify(config));
+  return configPath;
+}
+
+describe("Config", () => {
+  beforeEach(() => {
+    fs.mkdirSync(path.join(TEST_DIR, "packages", "legacy"), {
+      recursive: true,
+    });
+  });
+
+  describe("findConfigFile", () => {
+    it("should find the nearest rc file walking up", () => {
+      const configPath = writeConfig(TEST_DIR, {});
+
+      expect(findConfigFile(path.join(TEST_DIR, "packages", "legacy"))).toBe(
+        configPath,
+      );
+    });
+
+    it("should prefer a closer rc file", () => {
+      writeConfig(TEST_DIR, {});
+      const nested = writeConfig(path.join(TEST_DIR, "packages"), {});
+
+      expect(findConfigFile(path.join(TEST_DIR, "packages", "legacy"))).toBe(
+        nested,
+      );
+    });
+  });
+
+  describe("loadConfig", () => {
+    it("should reject invalid options with clear errors", () => {
+      writeConfig(TEST_DIR, {
+        severity: "critical",
+        rules: { "email-address": "loud" },
+        overrides: [{ rules: {} }],
+        colour: true,
+      });
+
+      expect(() => loadConfig(TEST_DIR)).toThrow(ConfigError);
+
+      try {
+        loadConfig(TEST_DIR);
+      } catch (error) {
+        const problems = (error as ConfigError).problems;
+        expect(problems).toContain(
+          '"severity" must be one of error, warning, all',
+        );
+        expect(problems).toContain(
+          '"rules.email-address" must be one of error, warning, off',
+        );
+        expect(problems).toContain(
+          '"overrides[0].files" must be a non-empty array of globs',
+        );
+        expect(problems).toContain('unknown option "colour"');
+      }
+    });
+
+    it("should reject malformed JSON", () => {
+      fs.writeFileSync(path.join(TEST_DIR, ".vibecurbrc.json"), "{ nope");
+
+      expect(() => loadConfig(TEST_DIR)).toThrow(/not valid JSON/);
+    });
+  });
+
+  describe("resolveConfig", () => {
+    it("should let CLI flags win over the rc file", () => {
+      writeConfig(TEST_DIR, { severity: "warning", extensions: ["js"] });
+
+      const config = resolveConfig(loadConfig(TEST_DIR), {
+        severity: "error",
+      });
+
+      expect(config.severity).toBe("error");
+      expect(config.extensions).toEqual([".js"]);
+    });
+
+    it("should apply per-directory overrides", () => {
+      writeConfig(TEST_DIR, {
+        rules: { "Email Address": "error" },
+        overrides: [
+          {
+            files: ["packages/legacy/**"],
+            disabledRules: ["email-address"],
+          },
+        ],
+      });
+      const config = resolveConfig(loadConfig(TEST_DIR));
+
+      expect(
+        resolveFilePolicy(config, path.join(TEST_DIR, "src", "a.js")).rules,
+      ).toEqual({ "email-address": "error" });
+      expect(
+        resolveFilePolicy(
+          config,
+          path.join(TEST_DIR, "packages", "legacy", "a.js"),
+        ).rules,
+      ).toEqual({ "email-address": "off" });
+    });
+  });
+
+  describe("scanDirectory with config", () => {
+    it("should honor severity overrides and disabled rules", async () => {
+      writeConfig(TEST_DIR, {
+        rules: { "email-address": "error" },
+        overrides: [
+          { files: ["packages/legacy/**"], rules: { "email-address": "off" } },
+        ],
+      });
+      fs.writeFileSync(
+        path.join(TEST_DIR, "app.js"),
+        'const contact = "admin@company.com";',
+      );
+      fs.writeFileSync(
+        path.join(TEST_DIR, "packages", "legacy", "old.js"),
+        'const contact = "admin@company.com";',
+      );
+
+      const results = await scanDirectory({
+        path: TEST_DIR,
+        config: resolveConfig(loadConfig(TEST_DIR)),
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].filePath).toBe(path.join(TEST_DIR, "app.js"));
+      expect(results[0].findings[0].severity).toBe("error");
+    });
+  });
+});
+
+describe("matchesGlob", () => {
+  it("should match nested globs", () => {
+    expect(
+      matchesGlob("packages/a/fixtures/x/y.js", "packages/*/fixtures/**"),
+    ).toBe(true);
+    expect(matchesGlob("packages/a/src/y.js", "packages/*/fixtures/**")).toBe(
+      false,
+    );
+  });
+
+  it("should match slash-less globs at any depth", () => {
+    expect(matchesGlob("src/deep/a.test.ts", "*.test.ts")).toBe(true);
+    expect(matchesGlob("src/a.ts", "*.{js,ts}")).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Shared fixture: a temporary directory created for each test
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export interface TempDir {
+  /** Absolute path of the directory; it exists while a test runs */
+  readonly dir: string;
+  /** Write a file under dir, creating its parent directories */
+  readonly writeFile: (
+    relativePath: string,
+    content?: string | Buffer,
+    options?: fs.WriteFileOptions,
+  ) => string;
+}
+
+/**
+ * Create a fresh directory before each test and delete it after. Call it at
+ * the top of a test file; name keeps the directories of test files apart.
+ */
+export function useTempDir(name: string): TempDir {
+  const dir = path.join(__dirname, "..", `temp-${name}-tests-${Date.now()}`);
+
+  beforeEach(() => {
+    fs.mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  return {
+    dir,
+    writeFile(relativePath, content = "", options) {
+      const filePath = path.join(dir, relativePath);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content, options);
+      return filePath;
+    },
+  };
+}
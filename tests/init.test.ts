@@ -0,0 +1,100 @@
+/**
+ * Tests for vibecurb init and the AI instruction template
+ */
+
+import { planInit } from "../src/init/init";
+import { mergeInstructions } from "../src/init/instructions";
+import { getHookPath } from "../src/git/hook";
+import { runGit } from "../src/git/git";
+import { useTempDir } from "./helpers/temp-dir";
+import * as fs from "fs";
+import * as path from "path";
+
+const { dir: TEST_DIR } = useTempDir("init");
+
+function read(relativePath: string): string {
+  return fs.readFileSync(path.join(TEST_DIR, relativePath), "utf8");
+}
+
+describe("init", () => {
+  // Keep the surrounding git environment (e.g. core.hooksPath) out of tests
+  const savedEnv = { ...process.env };
+
+  beforeAll(() => {
+    Object.keys(process.env)
+      .filter((key) => key.startsWith("GIT_CONFIG_"))
+      .forEach((key) => delete process.env[key]);
+  });
+
+  afterAll(() => {
+    process.env = savedEnv;
+  });
+
+  beforeEach(() => {
+    fs.mkdirSync(path.join(TEST_DIR, ".cursor"), { recursive: true });
+    runGit(["init", "-q"], TEST_DIR);
+  });
+
+  it("sets up detected assistants, config, .gitignore and the hook", () => {
+    fs.writeFileSync(path.join(TEST_DIR, ".gitignore"), "node_modules\n.env");
+    const steps = planInit(TEST_DIR);
+    expect(steps.map((s) => s.id)).toEqual([
+      "config",
+      "instructions",
+      "gitignore",
+      "hook",
+    ]);
+    expect(steps[1].description).toBe(
+      "Write AI instructions for Cursor, Any assistant",
+    );
+
+    steps.forEach((step) => step.run());
+
+    expect(JSON.parse(read(".vibecurbrc.json"))).toEqual({
+      severity: "all",
+      rules: {},
+    });
+    expect(read(".cursorrules")).toBe(read("AI_INSTRUCTIONS.md"));
+    expect(read(".cursorrules")).toContain(
+      "- `github-token` (error): GitHub token detected.",
+    );
+    expect(read(".cursorrules")).toContain("## Project Config");
+    expect(read(".gitignore")).toBe(
+      "node_modules\n.env\n.env.local\n.env.*.local\n.vibecurb/\n",
+    );
+    expect(fs.existsSync(getHookPath(TEST_DIR))).toBe(true);
+
+    // A second run only reinstalls the hook, which is a no-op
+    expect(planInit(TEST_DIR).map((s) => s.id)).toEqual([
+      "instructions",
+      "hook",
+    ]);
+  });
+
+  it("renders the rules the config leaves on", () => {
+    fs.writeFileSync(
+      path.join(TEST_DIR, ".vibecurbrc.json"),
+      JSON.stringify({ rules: { "github-token": "off" } }),
+    );
+    planInit(TEST_DIR, { assistants: ["copilot"] })
+      .find((s) => s.id === "instructions")
+      ?.run();
+
+    const instructions = read(".github/copilot-instructions.md");
+    expect(instructions).not.toContain("`github-token`");
+    expect(instructions).toContain("`aws-access-key-id`");
+    expect(fs.existsSync(path.join(TEST_DIR, ".cursorrules"))).toBe(false);
+    expect(() => planInit(TEST_DIR, { assistants: ["vim"] })).toThrow(
+      'Unknown assistant "vim"',
+    );
+  });
+
+  it("keeps user content around the generated section", () => {
+    const once = mergeInstructions("# My rules\n\nBe nice.\n", "v1\n");
+    const twice = mergeInstructions(once, "v2\n");
+
+    expect(twice).toBe(
+      "# My rules\n\nBe nice.\n\n<!-- vibecurb:start -->\nv2\n<!-- vibecurb:end -->\n",
+    );
+  });
+});
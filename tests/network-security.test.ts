@@ -2,7 +2,12 @@
  * Tests for network security scanner
  */
 
-import { scanNetworkSecurity } from "../src/scanner/network-detector";
+import {
+  hasProperErrorHandling,
+  scanNetworkContent,
+  scanNetworkSecurity,
+  scanNetworkText,
+} from "../src/scanner/network-detector";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -135,4 +140,168 @@ describe("Network Security Scanner", () => {
     expect(findings.length).toBe(0);
     fs.unlinkSync(testFile);
   });
+
+  it("scans text with the language of its filename", () => {
+    const code = "console.log(\n  user,\n);\n";
+
+    // Only code that is parsed is matched across lines
+    expect(scanNetworkText(code, { filename: "api.ts" })).toMatchObject([
+      { filePath: "api.ts", pattern: "Console Log with User Object" },
+    ]);
+    expect(scanNetworkText(code)).toEqual([]);
+  });
+
+  describe("parser-backed analysis", () => {
+    const patterns = (code: string) =>
+      scanNetworkContent(code, "app.ts").map((f) => f.pattern);
+
+    it("should find headers spread over multiple lines", () => {
+      const findings = scanNetworkContent(
+        [
+          'const data = await fetch("/api", {',
+          "  headers: {",
+          '    Authorization: "Bearer token123",',
+          "  },",
+          "}).catch(report);",
+        ].join("\n"),
+        "client.ts",
+      );
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]).toMatchObject({
+        pattern: "Fetch with Hardcoded Authorization",
+        lineNumber: 3,
+        column: 5,
+      });
+    });
+
+    it("should not flag authorization built from variables", () => {
+      expect(
+        patterns(
+          "axios.get(url, { headers: { Authorization: `Bearer ${token}` } }).catch(report);",
+        ),
+      ).toEqual([]);
+    });
+
+    it("should know whether a request is inside try/catch", () => {
+      const handled = [
+        "async function load() {",
+        "  try {",
+        '    return await fetch("/api");',
+        "  } catch (err) {",
+        "    console.error(err);",
+        "  }",
+        "}",
+      ].join("\n");
+      const unhandled = 'async function load() { await fetch("/api"); }';
+
+      expect(patterns(handled)).toEqual(["Console Log in Error Handler"]);
+      expect(patterns(unhandled)).toEqual(["Missing Error Handler"]);
+      expect(hasProperErrorHandling(handled)).toBe(true);
+      expect(hasProperErrorHandling(unhandled)).toBe(false);
+    });
+
+    it("should require .catch on promise chains", () => {
+      expect(patterns('fetch("/api").then((r) => r.json());')).toEqual([
+        "Missing Error Handler",
+      ]);
+      expect(
+        patterns('fetch("/api").then((r) => r.json()).catch(report);'),
+      ).toEqual([]);
+    });
+
+    it("should report raw errors and full users in responses", () => {
+      expect(
+        patterns(
+          [
+            "app.get('/me', async (req, res) => {",
+            "  try {",
+            "    res.json({",
+            "      user: req.user,",
+            "    });",
+            "  } catch (failure) {",
+            "    res.send(failure);",
+            "  }",
+            "});",
+          ].join("\n"),
+        ),
+      ).toEqual([
+        "Return Full User Object in Response",
+        "Raw Error in Response",
+      ]);
+    });
+  });
+
+  describe("data-flow tracking", () => {
+    const flows = (code: string) =>
+      scanNetworkContent(code, "routes.ts")
+        .filter((f) => f.dataFlow)
+        .map((f) => ({
+          pattern: f.pattern,
+          path: f.dataFlow?.map((step) => step.lineNumber),
+        }));
+
+    it("should follow ORM results through assignments to the response", () => {
+      const code = [
+        "app.get('/me', async (req, res) => {",
+        "  const account = await User.findById(req.params.id);",
+        "  const payload = { account };",
+        "  res.json(payload);",
+        "});",
+      ].join("\n");
+
+      expect(flows(code)).toEqual([
+        { pattern: "Return Full User Object in Response", path: [2, 2, 3, 4] },
+      ]);
+    });
+
+    it("should follow destructuring of req.user into logger calls", () => {
+      const code = [
+        "function handler(req) {",
+        "  const { user } = req;",
+        "  logger.info(user);",
+        "}",
+      ].join("\n");
+
+      expect(flows(code)).toEqual([
+        { pattern: "Logger Call with User Object", path: [2, 3] },
+      ]);
+    });
+
+    it("should stop at field-picking steps", () => {
+      const code = [
+        "app.get('/me', async (req, res) => {",
+        "  const account = await User.findById(req.params.id);",
+        "  const { name, email } = account;",
+        "  res.json({ name, email, id: account.id });",
+        "  res.json(await User.findOne({ where: {}, select: { name: true } }));",
+        "});",
+      ].join("\n");
+
+      expect(flows(code)).toEqual([]);
+    });
+
+    it("should report secrets from process.env reaching sinks", () => {
+      const code = [
+        "const secret = process.env.JWT_SECRET;",
+        "console.log(`signing with ${secret}`);",
+        "res.send({ port: process.env.PORT });",
+      ].join("\n");
+
+      expect(flows(code)).toEqual([
+        { pattern: "Secret in Log", path: [1, 1, 2] },
+      ]);
+    });
+
+    it("should not confuse parameters with outer tainted names", () => {
+      const code = [
+        "const profile = req.user;",
+        "function render(profile) {",
+        "  console.info(profile);",
+        "}",
+      ].join("\n");
+
+      expect(flows(code)).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,109 @@
+/**
+ * Tests for report formats
+ */
+
+import { generateReport } from "../src/scanner/reporter";
+import { NetworkFinding } from "../src/scanner/network-detector";
+import { ScanResult } from "../src/scanner/types";
+import * as path from "path";
+
+const ROOT = path.join(__dirname, "project");
+
+const SECRET_RESULTS: ScanResult[] = [
+  {
+    filePath: path.join(ROOT, "src", "config.js"),
+    findings: [
+      {
+        filePath: path.join(ROOT, "src", "config.js"),
+        lineNumber: 3,
+        column: 7,
+        match: 'apiKey = "sk-12345678901234567890abcdef"',
+        pattern: "API Key (Generic)",
+        severity: "error",
+        message: "API key detected",
+        fixSuggestion: "Use environment variable: process.env.API_KEY",
+      },
+    ],
+  },
+];
+
+const NETWORK_FINDINGS: NetworkFinding[] = [
+  {
+    filePath: path.join(ROOT, "api.js"),
+    lineNumber: 10,
+    column: 1,
+    match: "debugger;",
+    pattern: "Debugger Statement",
+    severity: "warning",
+    message: "Debugger statement should not be in production code",
+    fixSuggestion: "Remove debugger statements before deployment",
+    category: "logging",
+  },
+];
+
+const NETWORK_RESULTS: ScanResult[] = [
+  { filePath: path.join(ROOT, "api.js"), findings: NETWORK_FINDINGS },
+];
+
+describe("Reporter", () => {
+  describe("sarif", () => {
+    function sarif(results: ScanResult[]) {
+      return JSON.parse(
+        generateReport(results, { format: "sarif", rootDir: ROOT }),
+      );
+    }
+
+    it("should produce a SARIF 2.1.0 log with rules and results", () => {
+      const log = sarif(SECRET_RESULTS);
+      const run = log.runs[0];
+
+      expect(log.version).toBe("2.1.0");
+      expect(run.tool.driver.name).toBe("vibecurb");
+      expect(run.tool.driver.rules[0]).toMatchObject({
+        id: "api-key-generic",
+        help: { text: "Use environment variable: process.env.API_KEY" },
+        defaultConfiguration: { level: "error" },
+      });
+      expect(run.results[0]).toMatchObject({
+        ruleId: "api-key-generic",
+        ruleIndex: 0,
+        level: "error",
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: "src/config.js" },
+              region: { startLine: 3, startColumn: 7 },
+            },
+          },
+        ],
+      });
+    });
+
+    it("should use the rule's default level, not the overridden one", () => {
+      const log = sarif(NETWORK_RESULTS);
+
+      expect(log.runs[0].tool.driver.rules[0]).toMatchObject({
+        id: "debugger-statement",
+        defaultConfiguration: { level: "error" },
+        properties: { tags: ["security", "logging"] },
+      });
+      expect(log.runs[0].results[0].level).toBe("warning");
+    });
+
+    it("should never include matched secrets", () => {
+      expect(
+        generateReport(SECRET_RESULTS, { format: "sarif", rootDir: ROOT }),
+      ).not.toContain("sk-1234");
+    });
+  });
+
+  describe("json", () => {
+    it("should redact matches", () => {
+      const report = JSON.parse(
+        generateReport(SECRET_RESULTS, { format: "json" }),
+      );
+
+      expect(report[0].findings[0].match).toBe("[REDACTED]");
+    });
+  });
+});
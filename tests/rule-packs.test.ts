@@ -0,0 +1,158 @@
+/**
+ * Tests for custom rule packs
+ */
+
+import { loadConfig, resolveConfig } from "../src/config/loader";
+import { getRuleCatalog } from "../src/scanner/catalog";
+import { scanDirectory } from "../src/scanner/detector";
+import { scanNetworkDirectory } from "../src/scanner/network-detector";
+import { loadRulePack, RulePackError } from "../src/scanner/rule-packs";
+import { useTempDir } from "./helpers/temp-dir";
+import * as path from "path";
+
+const { dir: TEST_DIR, writeFile } = useTempDir("rule-pack");
+
+const ACME_PACK = `
+name: acme
+rules:
+  - name: Acme Internal Token
+    regex: "acme_[a-z0-9]{32}"
+    severity: error
+    message: Acme internal token found
+    fixSuggestion: Use process.env.ACME_TOKEN
+    files: ["services/**"]
+    tests:
+      positive: ["acme_0123456789abcdef0123456789abcdef"]
+      negative: ["acme_short"]
+  - name: Acme Logger With Session
+    regex: "acmeLog\\\\([^)]*session[^)]*\\\\)"
+    severity: warning
+    category: logging
+    message: Acme logger call includes the session
+    fixSuggestion: Log the session id only
+`;
+
+function resolveTestConfig() {
+  return resolveConfig(loadConfig(TEST_DIR), {}, TEST_DIR);
+}
+
+describe("Rule packs", () => {
+  it("should load YAML packs and apply file globs", async () => {
+    writeFile("rules/acme.yaml", ACME_PACK);
+    writeFile(
+      ".vibecurbrc.json",
+      JSON.stringify({ rulePacks: ["rules/acme.yaml"] }),
+    );
+    const token = 'const t = "acme_0123456789abcdef0123456789abcdef";';
+    writeFile("services/api.ts", token);
+    writeFile("scripts/seed.ts", token);
+
+    const results = await scanDirectory({
+      path: TEST_DIR,
+      config: resolveTestConfig(),
+    });
+
+    expect(results.map((r) => path.basename(r.filePath))).toEqual(["api.ts"]);
+    expect(results[0].findings[0]).toMatchObject({
+      pattern: "Acme Internal Token",
+      severity: "error",
+    });
+  });
+
+  it("should run non-secret rules in the network scan", async () => {
+    writeFile("rules/acme.yaml", ACME_PACK);
+    writeFile(
+      ".vibecurbrc.json",
+      JSON.stringify({
+        rulePacks: ["rules/acme.yaml"],
+        rules: { "acme-logger-with-session": "error" },
+      }),
+    );
+    writeFile("app.ts", "acmeLog(user.session);");
+
+    const findings = await scanNetworkDirectory({
+      path: TEST_DIR,
+      config: resolveTestConfig(),
+    });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      pattern: "Acme Logger With Session",
+      category: "logging",
+      severity: "error",
+    });
+  });
+
+  it("should reject rules that fail their examples", () => {
+    const packPath = writeFile(
+      "bad.json",
+      JSON.stringify({
+        rules: [
+          {
+            name: "Broken",
+            regex: "tok_[0-9]+",
+            severity: "critical",
+            message: "m",
+            fixSuggestion: "f",
+            tests: { positive: ["tok_abc"], negative: ["tok_123"] },
+          },
+        ],
+      }),
+    );
+
+    try {
+      loadRulePack(packPath);
+      throw new Error("expected loadRulePack to throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(RulePackError);
+      expect((error as RulePackError).problems).toEqual([
+        '"rules[0].severity" must be one of error, warning',
+        'rules[0]: regex does not match positive example "tok_abc"',
+        'rules[0]: regex matches negative example "tok_123"',
+      ]);
+    }
+  });
+
+  it("should reject rule ids that clash with built-in rules", () => {
+    writeFile(
+      "rules/clash.json",
+      JSON.stringify({
+        rules: [
+          {
+            name: "GitHub Token",
+            regex: "gh_[a-z]+",
+            severity: "error",
+            message: "m",
+            fixSuggestion: "f",
+          },
+        ],
+      }),
+    );
+    writeFile(
+      ".vibecurbrc.json",
+      JSON.stringify({ rulePacks: ["rules/clash.json"] }),
+    );
+
+    expect(resolveTestConfig).toThrow(/rule id "github-token"/);
+  });
+
+  it("should list pack rules in the catalog", () => {
+    writeFile("rules/acme.yaml", ACME_PACK);
+    writeFile(
+      ".vibecurbrc.json",
+      JSON.stringify({
+        rulePacks: ["rules/acme.yaml"],
+        disabledRules: ["email-address"],
+      }),
+    );
+
+    const catalog = getRuleCatalog(resolveTestConfig());
+
+    expect(catalog.find((r) => r.id === "acme-internal-token")).toMatchObject({
+      kind: "secrets",
+      source: "acme",
+      severity: "error",
+    });
+    expect(catalog.find((r) => r.id === "email-address")?.severity).toBe("off");
+  });
+});